@@ -1,27 +1,277 @@
-
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import VideoPlayer from './components/VideoPlayer';
+import RecentSessions from './components/RecentSessions';
+import VideoLibrary from './components/VideoLibrary';
 import { UploadIcon } from './components/icons';
+import { fingerprintFile } from './utils/fingerprint';
+import { PracticeSession, loadSession, listRecentSessions, deleteSession } from './utils/sessionStore';
+import { deleteTakesForVideo } from './utils/takeStore';
+import { isPackageFile, readPracticePackage, PACKAGE_EXTENSION } from './utils/practicePackage';
+import { LibraryVideo, fingerprintUrl, urlFromFingerprint, parseMediaUrl, nameFromUrl, isVideoFile } from './utils/videoLibrary';
+
+const readSession = async (key: string): Promise<PracticeSession | null> => {
+  try {
+    return await loadSession(key);
+  } catch (error) {
+    // The player still works without persistence, e.g. in private browsing.
+    console.error('Failed to restore practice session', error);
+    return null;
+  }
+};
+
+// Each video in a package opens with the package's session, unless the dancer keeps one they already have.
+const openPackage = async (packageFile: File): Promise<LibraryVideo[]> => {
+  let packaged;
+  try {
+    packaged = await readPracticePackage(packageFile);
+  } catch (error) {
+    console.error('Failed to open practice package', error);
+    alert(`Could not open "${packageFile.name}".\n\n${error instanceof Error ? error.message : ''}`);
+    return [];
+  }
+
+  const opened: LibraryVideo[] = [];
+  for (const { file, session } of packaged) {
+    let key: string | null = null;
+    try {
+      key = await fingerprintFile(file);
+    } catch (error) {
+      console.error('Failed to fingerprint video', error);
+    }
+    const saved = key ? await readSession(key) : null;
+    const keepSaved = saved !== null && !window.confirm(
+      `You already have a practice session for "${file.name}". Replace it with the one from the package?`
+    );
+    opened.push({
+      id: new Date().toISOString() + `-${Math.random().toString(36).slice(2, 8)}`,
+      url: URL.createObjectURL(file),
+      name: file.name,
+      size: file.size,
+      fingerprint: key,
+      session: keepSaved ? saved : { ...session, fingerprint: key ?? '' },
+      isObjectUrl: true,
+    });
+  }
+  return opened;
+};
 
 const App: React.FC = () => {
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [videos, setVideos] = useState<LibraryVideo[]>([]);
+  const [activeVideoId, setActiveVideoId] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [mediaUrl, setMediaUrl] = useState('');
+  const [recentSessions, setRecentSessions] = useState<PracticeSession[]>([]);
+  const reopenTargetRef = useRef<PracticeSession | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const dragDepthRef = useRef(0);
+
+  const activeVideo = videos.find(video => video.id === activeVideoId) ?? null;
+
+  const refreshRecentSessions = useCallback(() => {
+    listRecentSessions()
+      .then(setRecentSessions)
+      .catch(error => console.error('Failed to list recent sessions', error));
+  }, []);
+
+  useEffect(() => {
+    if (!activeVideoId) {
+      refreshRecentSessions();
+    }
+  }, [activeVideoId, refreshRecentSessions]);
+
+  // A video switched back to re-reads its session, which the player saved when it was switched away from.
+  useEffect(() => {
+    if (!activeVideo || activeVideo.session !== undefined) return;
+    const { id, fingerprint } = activeVideo;
+    let cancelled = false;
+    (fingerprint ? readSession(fingerprint) : Promise.resolve(null)).then(session => {
+      if (cancelled) return;
+      setVideos(current => current.map(video => video.id === id ? { ...video, session } : video));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeVideo]);
+
+  // Leaving a video unmounts its player, which saves the session; mark it to be re-read.
+  const markLeaving = useCallback((video: LibraryVideo): LibraryVideo =>
+    video.id === activeVideoId ? { ...video, session: undefined } : video, [activeVideoId]);
 
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setVideoFile(file);
-      setVideoUrl(url);
+  const switchTo = useCallback((id: string | null) => {
+    if (id === activeVideoId) return;
+    setVideos(current => current.map(markLeaving));
+    setActiveVideoId(id);
+  }, [activeVideoId, markLeaving]);
+
+  // Videos already in the library are switched to rather than opened twice.
+  const addVideos = useCallback((opened: LibraryVideo[]) => {
+    if (opened.length === 0) return;
+    const existingId = (video: LibraryVideo) =>
+      video.fingerprint ? videos.find(other => other.fingerprint === video.fingerprint)?.id : undefined;
+    const added = opened.filter(video => !existingId(video));
+    opened
+      .filter(video => existingId(video) && video.isObjectUrl)
+      .forEach(video => URL.revokeObjectURL(video.url));
+    const targetId = existingId(opened[0]) ?? opened[0].id;
+    setVideos(current => [...(targetId === activeVideoId ? current : current.map(markLeaving)), ...added]);
+    setActiveVideoId(targetId);
+  }, [videos, activeVideoId, markLeaving]);
+
+  const openFiles = useCallback(async (files: File[], reopenTarget: PracticeSession | null = null) => {
+    const packageFiles = files.filter(isPackageFile);
+    const videoFiles = files.filter(file => !isPackageFile(file) && isVideoFile(file));
+    if (videoFiles.length === 0 && packageFiles.length === 0) {
+      if (files.length > 0) alert(`That doesn't look like a video file. Supported formats: MP4, MOV, AVI, WebM, or a ${PACKAGE_EXTENSION} practice package.`);
+      return;
     }
+
+    setIsOpening(true);
+    const opened: LibraryVideo[] = [];
+    for (const packageFile of packageFiles) {
+      opened.push(...await openPackage(packageFile));
+    }
+    for (const [index, file] of videoFiles.entries()) {
+      let key: string | null = null;
+      try {
+        key = await fingerprintFile(file);
+      } catch (error) {
+        console.error('Failed to fingerprint video', error);
+      }
+      const session = key ? await readSession(key) : null;
+
+      if (reopenTarget && key !== reopenTarget.fingerprint) {
+        const proceed = window.confirm(
+          `"${file.name}" is not the video saved for "${reopenTarget.videoName}". Open it as a different session?`
+        );
+        if (!proceed) continue;
+      }
+
+      opened.push({
+        id: `${new Date().toISOString()}-${index}`,
+        url: URL.createObjectURL(file),
+        name: file.name,
+        size: file.size,
+        fingerprint: key,
+        session,
+        isObjectUrl: true,
+      });
+    }
+    setIsOpening(false);
+    addVideos(opened);
+  }, [addVideos]);
+
+  const openUrl = useCallback(async (url: string) => {
+    setIsOpening(true);
+    const key = fingerprintUrl(url);
+    const session = await readSession(key);
+    setIsOpening(false);
+    addVideos([{
+      id: new Date().toISOString(),
+      url,
+      name: nameFromUrl(url),
+      size: 0,
+      fingerprint: key,
+      session,
+      isObjectUrl: false,
+    }]);
+  }, [addVideos]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const inputElement = event.target;
+    const files = Array.from(inputElement.files ?? []);
+    const reopenTarget = reopenTargetRef.current;
+    reopenTargetRef.current = null;
+    inputElement.value = '';
+    openFiles(files, reopenTarget);
+  };
+
+  const handleOpenUrl = (event: React.FormEvent) => {
+    event.preventDefault();
+    const url = parseMediaUrl(mediaUrl);
+    if (!url) {
+      alert('Enter a direct link to a video file, e.g. http://localhost:8000/routine.mp4');
+      return;
+    }
+    setMediaUrl('');
+    openUrl(url);
+  };
+
+  // Drop video files anywhere on the page, whether or not a video is already open.
+  const openFilesRef = useRef(openFiles);
+  openFilesRef.current = openFiles;
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepthRef.current += 1;
+      setIsDraggingFiles(true);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDraggingFiles(false);
+      openFilesRef.current(Array.from(e.dataTransfer?.files ?? []));
+    };
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
   }, []);
 
-  const handleNewVideo = () => {
-    if (videoUrl) {
-      URL.revokeObjectURL(videoUrl);
+  const handleReopenSession = (session: PracticeSession) => {
+    const url = urlFromFingerprint(session.fingerprint);
+    if (url) {
+      openUrl(url);
+      return;
     }
-    setVideoUrl(null);
-    setVideoFile(null);
+    reopenTargetRef.current = session;
+    uploadInputRef.current?.click();
+  };
+
+  const handleDeleteSession = async (key: string) => {
+    try {
+      await deleteSession(key);
+      await deleteTakesForVideo(key);
+    } catch (error) {
+      console.error('Failed to delete practice session', error);
+    }
+    refreshRecentSessions();
+  };
+
+  const handleCloseVideo = (id: string) => {
+    const index = videos.findIndex(video => video.id === id);
+    const closing = videos[index];
+    if (!closing) return;
+    if (closing.isObjectUrl) {
+      URL.revokeObjectURL(closing.url);
+    }
+    const remaining = videos.filter(video => video.id !== id);
+    setVideos(remaining);
+    if (id === activeVideoId) {
+      setActiveVideoId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+    }
+  };
+
+  const handleNewVideo = () => {
+    switchTo(null);
   };
 
   return (
@@ -30,30 +280,94 @@ const App: React.FC = () => {
         <h1 className="text-3xl font-bold text-emerald-400">Dance Practice Video Looper</h1>
         <p className="text-gray-400 mt-1">Isolate moves, perfect timing, master your choreography.</p>
       </header>
-      
+
       <main className="w-full max-w-7xl flex-grow flex flex-col">
-        {videoUrl && videoFile ? (
-          <VideoPlayer videoUrl={videoUrl} onNewVideo={handleNewVideo} videoName={videoFile.name} />
+        <VideoLibrary
+          videos={videos}
+          activeVideoId={activeVideoId}
+          onSelect={switchTo}
+          onClose={handleCloseVideo}
+          onAdd={handleNewVideo}
+        />
+        {activeVideo ? (
+          activeVideo.session === undefined ? (
+            <p className="flex-grow flex items-center justify-center text-gray-400">Opening {activeVideo.name}…</p>
+          ) : (
+            <VideoPlayer
+              key={activeVideo.id}
+              videoUrl={activeVideo.url}
+              onNewVideo={handleNewVideo}
+              videoName={activeVideo.name}
+              videoSize={activeVideo.size}
+              fingerprint={activeVideo.fingerprint}
+              initialSession={activeVideo.session}
+            />
+          )
         ) : (
           <div className="w-full flex-grow flex flex-col items-center justify-center bg-gray-800 rounded-lg p-8 border-2 border-dashed border-gray-600">
             <div className="text-center">
               <UploadIcon className="w-16 h-16 mx-auto text-gray-500" />
               <p className="mt-4 text-lg font-semibold">Upload a video to begin your practice</p>
-              <p className="text-sm text-gray-400">Supported formats: MP4, MOV, AVI, WebM</p>
+              <p className="text-sm text-gray-400">Supported formats: MP4, MOV, AVI, WebM. Drop files anywhere on the page.</p>
+              <p className="text-sm text-gray-400">Got a {PACKAGE_EXTENSION} file from a teammate? Open it to start practising with their steps.</p>
               <label htmlFor="video-upload" className="mt-6 inline-block bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-2 px-4 rounded-lg cursor-pointer transition-colors duration-200">
-                Select Video File
+                {isOpening ? 'Opening…' : 'Select Video Files'}
               </label>
-              <input 
-                id="video-upload" 
-                type="file" 
-                accept="video/*" 
-                onChange={handleFileChange} 
-                className="hidden" 
+              <input
+                id="video-upload"
+                type="file"
+                accept="video/*"
+                multiple
+                ref={uploadInputRef}
+                onChange={handleFileChange}
+                disabled={isOpening}
+                className="hidden"
               />
+              <label htmlFor="package-upload" className="mt-6 ml-2 inline-block bg-gray-700 hover:bg-gray-600 font-bold py-2 px-4 rounded-lg cursor-pointer transition-colors duration-200">
+                Open Practice Package
+              </label>
+              <input
+                id="package-upload"
+                type="file"
+                accept={PACKAGE_EXTENSION}
+                multiple
+                onChange={handleFileChange}
+                disabled={isOpening}
+                className="hidden"
+              />
+              <form onSubmit={handleOpenUrl} className="mt-4 flex items-center gap-2">
+                <input
+                  type="text"
+                  value={mediaUrl}
+                  onChange={(e) => setMediaUrl(e.target.value)}
+                  placeholder="or paste a direct video URL"
+                  aria-label="Video URL"
+                  className="w-72 bg-gray-700 rounded-md px-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-emerald-400"
+                />
+                <button
+                  type="submit"
+                  disabled={isOpening || !mediaUrl.trim()}
+                  className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  Open URL
+                </button>
+              </form>
+              <p className="text-xs text-gray-500 mt-1">The link must be served from this site or allow cross-origin access.</p>
             </div>
+            <RecentSessions
+              sessions={recentSessions}
+              onOpen={handleReopenSession}
+              onDelete={handleDeleteSession}
+            />
           </div>
         )}
       </main>
+
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-50 bg-emerald-900/60 border-4 border-dashed border-emerald-400 flex items-center justify-center pointer-events-none">
+          <p className="text-2xl font-bold text-white">Drop videos to open them</p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,57 @@
+import React from 'react';
+
+interface ActiveStepLinkProps {
+  stepName: string;
+  isDetached: boolean;
+  /** Whether the loop has moved away from the step's saved bounds. */
+  hasChanges: boolean;
+  onDetach: () => void;
+  onSaveToStep: () => void;
+  onRevert: () => void;
+}
+
+/**
+ * While a step is active, loop edits rewrite it. Detaching lets the loop be
+ * adjusted freely, then saved back to the step or dropped.
+ */
+const ActiveStepLink: React.FC<ActiveStepLinkProps> = ({ stepName, isDetached, hasChanges, onDetach, onSaveToStep, onRevert }) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    <span className="text-xs font-bold text-gray-400 mr-1">STEP</span>
+    {isDetached ? (
+      <>
+        <span className="text-amber-300">
+          Loop detached from <span className="font-semibold">{stepName}</span>{hasChanges ? ' (changed)' : ''}
+        </span>
+        <button
+          onClick={onSaveToStep}
+          title={`Save the current loop as the bounds of ${stepName}`}
+          className="px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white transition-colors"
+        >
+          Save Loop to Step
+        </button>
+        <button
+          onClick={onRevert}
+          title={`Return the loop to ${stepName}'s bounds`}
+          className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          Back to Step
+        </button>
+      </>
+    ) : (
+      <>
+        <span className="text-gray-300">
+          Loop edits update <span className="font-semibold">{stepName}</span>
+        </span>
+        <button
+          onClick={onDetach}
+          title="Adjust the loop without changing the step"
+          className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          Detach
+        </button>
+      </>
+    )}
+  </div>
+);
+
+export default ActiveStepLink;
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Annotation,
+  AnnotationData,
+  AnnotationKind,
+  AnnotationPoint,
+  clampPoint,
+  extendStroke,
+  isAnnotationVisible,
+  minimumPoints,
+  roundPoints,
+} from '../utils/annotations';
+
+interface AnnotationOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  annotations: Annotation[];
+  currentTime: number;
+  isMirrored: boolean;
+  /** The drawing tool in use; null lets clicks through to the video. */
+  tool: AnnotationKind | null;
+  color: string;
+  onCreate: (kind: AnnotationKind, points: AnnotationPoint[], text?: string) => void;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Arrows and circles shorter than this (in frame fractions) are treated as stray clicks.
+const MIN_SHAPE_SIZE = 0.01;
+
+/** Where the picture sits inside the element once object-fit: contain has letterboxed it. */
+const videoContentBox = (video: HTMLVideoElement): Box => {
+  const width = video.clientWidth;
+  const height = video.clientHeight;
+  if (!video.videoWidth || !video.videoHeight || !width || !height) {
+    return { left: 0, top: 0, width, height };
+  }
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const contentWidth = video.videoWidth * scale;
+  const contentHeight = video.videoHeight * scale;
+  return {
+    left: video.offsetLeft + (width - contentWidth) / 2,
+    top: video.offsetTop + (height - contentHeight) / 2,
+    width: contentWidth,
+    height: contentHeight,
+  };
+};
+
+const AnnotationShape: React.FC<{ annotation: AnnotationData; box: Box; isMirrored: boolean }> = ({ annotation, box, isMirrored }) => {
+  const toX = (x: number) => (isMirrored ? 1 - x : x) * box.width;
+  const toY = (y: number) => y * box.height;
+  const strokeWidth = Math.max(2, box.width / 250);
+  const points = annotation.points;
+
+  switch (annotation.kind) {
+    case 'text': {
+      const fontSize = Math.max(14, box.width / 28);
+      return (
+        <text
+          x={toX(points[0].x)}
+          y={toY(points[0].y)}
+          fill={annotation.color}
+          stroke="rgba(0, 0, 0, 0.8)"
+          strokeWidth={fontSize / 8}
+          paintOrder="stroke"
+          fontSize={fontSize}
+          fontWeight="bold"
+          dominantBaseline="middle"
+        >
+          {annotation.text}
+        </text>
+      );
+    }
+    case 'arrow': {
+      const [tail, head] = points;
+      const x1 = toX(tail.x), y1 = toY(tail.y), x2 = toX(head.x), y2 = toY(head.y);
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const wing = strokeWidth * 5;
+      const wings = [angle + Math.PI * 0.85, angle - Math.PI * 0.85]
+        .map(a => `${x2 + Math.cos(a) * wing},${y2 + Math.sin(a) * wing}`);
+      return (
+        <g stroke={annotation.color} strokeWidth={strokeWidth} strokeLinecap="round" fill={annotation.color}>
+          <line x1={x1} y1={y1} x2={x2} y2={y2} />
+          <polygon points={`${x2},${y2} ${wings.join(' ')}`} strokeLinejoin="round" />
+        </g>
+      );
+    }
+    case 'circle': {
+      const [center, edge] = points;
+      const r = Math.hypot(toX(edge.x) - toX(center.x), toY(edge.y) - toY(center.y));
+      return <circle cx={toX(center.x)} cy={toY(center.y)} r={r} fill="none" stroke={annotation.color} strokeWidth={strokeWidth} />;
+    }
+    case 'freehand':
+      return (
+        <polyline
+          points={points.map(point => `${toX(point.x)},${toY(point.y)}`).join(' ')}
+          fill="none"
+          stroke={annotation.color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      );
+    default:
+      return null;
+  }
+};
+
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ videoRef, annotations, currentTime, isMirrored, tool, color, onCreate }) => {
+  const [box, setBox] = useState<Box | null>(null);
+  const [draft, setDraft] = useState<AnnotationData | null>(null);
+
+  // Follow the picture as the stage resizes, goes fullscreen or loads a new video.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setBox(videoContentBox(video));
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(video);
+    video.addEventListener('loadedmetadata', update);
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', update);
+    };
+  }, [videoRef]);
+
+  useEffect(() => {
+    if (!tool) setDraft(null);
+  }, [tool]);
+
+  if (!box || box.width === 0) return null;
+
+  const pointFromEvent = (e: React.PointerEvent<SVGSVGElement>): AnnotationPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    return clampPoint({ x: isMirrored ? 1 - x : x, y: (e.clientY - rect.top) / rect.height });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!tool) return;
+    e.preventDefault();
+    const point = pointFromEvent(e);
+    if (tool === 'text') {
+      const text = prompt('Text to show on the video:')?.trim();
+      if (text) onCreate('text', roundPoints([point]), text);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ kind: tool, start: 0, end: 0, color, points: tool === 'freehand' ? [point] : [point, point] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = pointFromEvent(e);
+    setDraft({
+      ...draft,
+      points: draft.kind === 'freehand' ? extendStroke(draft.points, point) : [draft.points[0], point],
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const first = draft.points[0];
+    const last = draft.points[draft.points.length - 1];
+    const isBigEnough = Math.hypot(last.x - first.x, last.y - first.y) >= MIN_SHAPE_SIZE;
+    if (draft.points.length >= minimumPoints(draft.kind) && (draft.kind === 'freehand' || isBigEnough)) {
+      onCreate(draft.kind, roundPoints(draft.points));
+    }
+    setDraft(null);
+  };
+
+  const visible = annotations.filter(annotation => isAnnotationVisible(annotation, currentTime));
+
+  return (
+    <svg
+      className={`absolute ${tool ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDraft(null)}
+    >
+      {visible.map(annotation => (
+        <AnnotationShape key={annotation.id} annotation={annotation} box={box} isMirrored={isMirrored} />
+      ))}
+      {draft && <AnnotationShape annotation={draft} box={box} isMirrored={isMirrored} />}
+    </svg>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,141 @@
+import React from 'react';
+import TimeInput from './TimeInput';
+import { DeleteIcon } from './icons';
+import { formatTime } from '../utils/formatTime';
+import { validateRangeStart, validateRangeEnd } from '../utils/timeRange';
+import {
+  Annotation,
+  AnnotationKind,
+  ANNOTATION_KINDS,
+  ANNOTATION_COLORS,
+  annotationLabel,
+  isAnnotationVisible,
+} from '../utils/annotations';
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[];
+  currentTime: number;
+  duration: number;
+  tool: AnnotationKind | null;
+  color: string;
+  onToolChange: (tool: AnnotationKind | null) => void;
+  onColorChange: (color: string) => void;
+  onUpdate: (id: string, patch: Partial<Annotation>) => void;
+  onDelete: (id: string) => void;
+  onSeek: (time: number) => void;
+}
+
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+  annotations,
+  currentTime,
+  duration,
+  tool,
+  color,
+  onToolChange,
+  onColorChange,
+  onUpdate,
+  onDelete,
+  onSeek,
+}) => {
+  const sorted = [...annotations].sort((a, b) => a.start - b.start);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 mr-1">DRAW</span>
+        {ANNOTATION_KINDS.map(kind => (
+          <button
+            key={kind.value}
+            onClick={() => onToolChange(tool === kind.value ? null : kind.value)}
+            title={kind.value === 'text' ? 'Click the video to place a text cue' : `Drag on the video to draw a ${kind.label.toLowerCase()}`}
+            className={`px-2 py-1 rounded-md transition-colors ${tool === kind.value ? 'bg-emerald-500 text-white' : 'hover:bg-gray-600'}`}
+          >
+            {kind.label}
+          </button>
+        ))}
+        <div className="flex items-center gap-1 pl-2 border-l border-gray-600">
+          {ANNOTATION_COLORS.map(swatch => (
+            <button
+              key={swatch}
+              onClick={() => onColorChange(swatch)}
+              title="Drawing color"
+              aria-pressed={color === swatch}
+              className={`w-5 h-5 rounded-full border-2 ${color === swatch ? 'border-white' : 'border-transparent'}`}
+              style={{ backgroundColor: swatch }}
+            />
+          ))}
+        </div>
+        {tool && (
+          <span className="text-xs text-gray-400">
+            New annotations show from {formatTime(currentTime)} for a couple of seconds; adjust the times below.
+          </span>
+        )}
+      </div>
+      {sorted.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto space-y-1 pr-1">
+          {sorted.map((annotation, index) => (
+            <li
+              key={annotation.id}
+              className={`flex items-center gap-2 px-2 py-1 rounded-md ${isAnnotationVisible(annotation, currentTime) ? 'bg-gray-700' : 'bg-gray-700/40'}`}
+            >
+              <button
+                onClick={() => onUpdate(annotation.id, { color: ANNOTATION_COLORS[(ANNOTATION_COLORS.indexOf(annotation.color) + 1) % ANNOTATION_COLORS.length] })}
+                title="Change color"
+                className="w-4 h-4 rounded-full flex-shrink-0"
+                style={{ backgroundColor: annotation.color }}
+              />
+              {annotation.kind === 'text' ? (
+                <input
+                  type="text"
+                  defaultValue={annotation.text}
+                  key={annotation.text}
+                  onBlur={(e) => {
+                    const text = e.target.value.trim();
+                    if (text && text !== annotation.text) onUpdate(annotation.id, { text });
+                  }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  aria-label={`Text of annotation ${index + 1}`}
+                  className="flex-grow min-w-0 bg-transparent outline-none focus:bg-gray-600/50 rounded px-1"
+                />
+              ) : (
+                <span className="flex-grow min-w-0 truncate px-1">{annotationLabel(annotation)}</span>
+              )}
+              <span className="flex items-center text-xs font-mono text-gray-400">
+                <TimeInput
+                  value={annotation.start}
+                  label="Annotation start"
+                  validate={(time) => validateRangeStart(time, annotation.end)}
+                  onChange={(start) => onUpdate(annotation.id, { start })}
+                />
+                -
+                <TimeInput
+                  value={annotation.end}
+                  label="Annotation end"
+                  validate={(time) => validateRangeEnd(time, annotation.start, duration)}
+                  onChange={(end) => onUpdate(annotation.id, { end })}
+                  className="ml-1"
+                />
+              </span>
+              <button
+                onClick={() => onSeek(annotation.start)}
+                title="Go to this annotation"
+                className="px-2 text-xs rounded text-gray-300 hover:bg-gray-600 transition-colors"
+              >
+                Go
+              </button>
+              <button
+                onClick={() => onDelete(annotation.id)}
+                title="Delete annotation"
+                className="p-1 rounded-full text-gray-400 hover:bg-red-500/30 hover:text-red-300 transition-colors"
+              >
+                <DeleteIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationsPanel;
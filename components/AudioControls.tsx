@@ -0,0 +1,77 @@
+import React from 'react';
+import { VolumeIcon, MuteIcon } from './icons';
+
+export interface AudioSettings {
+  volume: number;
+  muted: boolean;
+  /** Gain applied to the music only while playing slower than 1x. */
+  slowBoost: number;
+}
+
+interface AudioControlsProps {
+  settings: AudioSettings;
+  preservePitch: boolean;
+  onSettingsChange: (settings: AudioSettings) => void;
+  onPreservePitchChange: (preserve: boolean) => void;
+}
+
+const SLOW_BOOST_OPTIONS = [
+  { value: 1, label: 'Off' },
+  { value: 1.5, label: '+3 dB' },
+  { value: 2, label: '+6 dB' },
+  { value: 3, label: '+10 dB' },
+];
+
+const AudioControls: React.FC<AudioControlsProps> = ({
+  settings,
+  preservePitch,
+  onSettingsChange,
+  onPreservePitchChange,
+}) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    <span className="text-xs font-bold text-gray-400 mr-1">AUDIO</span>
+    <button
+      onClick={() => onSettingsChange({ ...settings, muted: !settings.muted })}
+      title={settings.muted ? 'Unmute' : 'Mute'}
+      className={`p-1 rounded-full transition-colors ${settings.muted ? 'text-red-300 hover:bg-red-500/20' : 'text-gray-300 hover:bg-gray-600'}`}
+    >
+      {settings.muted ? <MuteIcon className="w-5 h-5" /> : <VolumeIcon className="w-5 h-5" />}
+    </button>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={settings.volume}
+      onChange={(e) => onSettingsChange({ ...settings, volume: Number(e.target.value), muted: false })}
+      className="w-24 h-1 bg-gray-600 rounded-full appearance-none cursor-pointer"
+      aria-label="Volume"
+    />
+    <label
+      className="flex items-center gap-1 px-2 py-1 rounded-md cursor-pointer"
+      title="Keep the music at its original pitch when slowed down or sped up"
+    >
+      <input
+        type="checkbox"
+        checked={preservePitch}
+        onChange={(e) => onPreservePitchChange(e.target.checked)}
+        className="accent-emerald-500"
+      />
+      Keep pitch
+    </label>
+    <label className="flex items-center gap-1 text-gray-400" title="Make the music louder while playing below 1x">
+      Slow boost
+      <select
+        value={settings.slowBoost}
+        onChange={(e) => onSettingsChange({ ...settings, slowBoost: Number(e.target.value) })}
+        className="bg-gray-700 rounded-md px-2 py-1 text-gray-200 outline-none"
+      >
+        {SLOW_BOOST_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  </div>
+);
+
+export default AudioControls;
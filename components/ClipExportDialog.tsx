@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import NumberField from './NumberField';
+import type { Step } from './VideoPlayer';
+import type { CountInSettings } from './CountInControls';
+import { formatTime } from '../utils/formatTime';
+import { fileBaseName, downloadBlob } from '../utils/download';
+import { recordingExtension } from '../utils/takeRecorder';
+import { MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from '../utils/speedTrainer';
+import {
+  ClipExportOptions,
+  MAX_CLIP_REPEATS,
+  MIN_STRIP_FRAMES,
+  MAX_STRIP_FRAMES,
+  supportsClipExport,
+  clipLengthSeconds,
+  isAbortError,
+  renderClip,
+  renderStillFrame,
+  renderImageStrip,
+} from '../utils/clipExport';
+
+type ExportKind = 'clip' | 'still' | 'strip';
+
+const EXPORT_KINDS: { value: ExportKind; label: string }[] = [
+  { value: 'clip', label: 'Video Clip' },
+  { value: 'still', label: 'Still Frame' },
+  { value: 'strip', label: 'Image Strip' },
+];
+
+interface ClipExportDialogProps {
+  step: Step;
+  videoUrl: string;
+  videoName: string;
+  playbackRate: number;
+  isMirrored: boolean;
+  countIn: CountInSettings;
+  /** Length of one beat at normal speed. */
+  beatSeconds: number;
+  onClose: () => void;
+}
+
+const ClipExportDialog: React.FC<ClipExportDialogProps> = ({
+  step,
+  videoUrl,
+  videoName,
+  playbackRate,
+  isMirrored,
+  countIn,
+  beatSeconds,
+  onClose,
+}) => {
+  const [kind, setKind] = useState<ExportKind>(supportsClipExport() ? 'clip' : 'still');
+  const [rate, setRate] = useState(playbackRate);
+  const [mirrored, setMirrored] = useState(step.mirrored ?? isMirrored);
+  const [repeats, setRepeats] = useState(1);
+  const [withCountIn, setWithCountIn] = useState(countIn.enabled);
+  const [stripFrames, setStripFrames] = useState(6);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog cancels an export in progress.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const options: ClipExportOptions = {
+    start: step.start,
+    end: step.end,
+    rate,
+    mirrored,
+    repeats,
+    countInBeats: withCountIn ? countIn.beats : 0,
+    countInClicks: countIn.audible,
+    beatSeconds,
+  };
+  const baseName = `${fileBaseName(videoName) || 'video'}_${step.name.replace(/[^\w-]+/g, '_')}`;
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      if (kind === 'clip') {
+        const blob = await renderClip(videoUrl, options, setProgress, controller.signal);
+        const speed = rate === 1 ? '' : `_${rate}x`;
+        downloadBlob(blob, `${baseName}${speed}${repeats > 1 ? `_x${repeats}` : ''}.${recordingExtension(blob.type)}`);
+      } else if (kind === 'still') {
+        downloadBlob(await renderStillFrame(videoUrl, step.start, mirrored), `${baseName}.png`);
+      } else {
+        downloadBlob(await renderImageStrip(videoUrl, step.start, step.end, stripFrames, mirrored), `${baseName}_strip.png`);
+      }
+      onClose();
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Failed to export step', error);
+        alert('Could not export this step. The browser may not be able to record or decode this video.');
+      }
+      setProgress(null);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={isExporting ? undefined : onClose}>
+      <div
+        className="w-full max-w-md bg-gray-800 rounded-lg shadow-2xl p-6 space-y-4 text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-xl font-bold text-emerald-400">Export {step.name}</h2>
+          <p className="text-gray-400 font-mono">{formatTime(step.start)} - {formatTime(step.end)}</p>
+        </div>
+        <div className="flex rounded-md overflow-hidden border border-gray-600">
+          {EXPORT_KINDS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setKind(option.value)}
+              disabled={isExporting || (option.value === 'clip' && !supportsClipExport())}
+              className={`flex-1 px-3 py-1 transition-colors disabled:opacity-50 ${kind === option.value ? 'bg-emerald-500 text-white' : 'hover:bg-gray-600'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {kind === 'clip' && (
+            <>
+              <NumberField label="Speed" value={rate} min={MIN_PLAYBACK_RATE} max={MAX_PLAYBACK_RATE} step={0.05} disabled={isExporting} onChange={setRate} />
+              <NumberField label="×" title="Repetitions" value={repeats} min={1} max={MAX_CLIP_REPEATS} step={1} disabled={isExporting} onChange={(value) => setRepeats(Math.round(value))} />
+              <label className="flex items-center gap-1 cursor-pointer" title={`Count in ${countIn.beats} beats before each repetition`}>
+                <input
+                  type="checkbox"
+                  checked={withCountIn}
+                  disabled={isExporting}
+                  onChange={(e) => setWithCountIn(e.target.checked)}
+                  className="accent-emerald-500"
+                />
+                Count-in
+              </label>
+            </>
+          )}
+          {kind === 'strip' && (
+            <NumberField label="Frames" value={stripFrames} min={MIN_STRIP_FRAMES} max={MAX_STRIP_FRAMES} step={1} disabled={isExporting} onChange={(value) => setStripFrames(Math.round(value))} />
+          )}
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={mirrored}
+              disabled={isExporting}
+              onChange={(e) => setMirrored(e.target.checked)}
+              className="accent-emerald-500"
+            />
+            Mirrored
+          </label>
+        </div>
+        <p className="text-xs text-gray-400">
+          {kind === 'clip' && `Renders in real time (about ${formatTime(clipLengthSeconds(options))}). Keep this tab in front while it records.`}
+          {kind === 'still' && 'The first frame of the step as a full-size image.'}
+          {kind === 'strip' && 'Frames across the step side by side, for a quick reference sheet.'}
+        </p>
+        {isExporting && (
+          <div className="h-2 rounded bg-gray-700 overflow-hidden" role="progressbar" aria-valuenow={Math.round(progress * 100)} aria-valuemin={0} aria-valuemax={100}>
+            <div className="h-full bg-emerald-500 transition-[width]" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <button onClick={handleCancel} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white font-semibold transition-colors disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClipExportDialog;
@@ -0,0 +1,110 @@
+import React, { useRef } from 'react';
+import NumberField from './NumberField';
+import { MirrorIcon, VolumeIcon, MuteIcon } from './icons';
+import { ComparisonSource } from './ComparisonView';
+
+interface ComparisonControlsProps {
+  source: ComparisonSource | null;
+  offset: number;
+  isMirrored: boolean;
+  isMuted: boolean;
+  onUseWebcam: () => void;
+  onUseFile: (file: File) => void;
+  onOffsetChange: (offset: number) => void;
+  onMirroredChange: (mirrored: boolean) => void;
+  onMutedChange: (muted: boolean) => void;
+  onClose: () => void;
+}
+
+export const MAX_COMPARISON_OFFSET = 600;
+const OFFSET_NUDGES = [-1, -0.1, 0.1, 1];
+
+const ComparisonControls: React.FC<ComparisonControlsProps> = ({
+  source,
+  offset,
+  isMirrored,
+  isMuted,
+  onUseWebcam,
+  onUseFile,
+  onOffsetChange,
+  onMirroredChange,
+  onMutedChange,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onUseFile(file);
+    e.target.value = '';
+  };
+
+  const nudge = (amount: number) =>
+    onOffsetChange(Math.round(Math.min(MAX_COMPARISON_OFFSET, Math.max(-MAX_COMPARISON_OFFSET, offset + amount)) * 100) / 100);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-xs font-bold text-gray-400 mr-1">COMPARE</span>
+      <button
+        onClick={onUseWebcam}
+        title="Show your camera next to the video"
+        className={`px-3 py-1 rounded-md transition-colors ${source?.kind === 'webcam' ? 'bg-emerald-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+      >
+        Webcam
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        title="Show a recording of your attempt next to the video"
+        className={`px-3 py-1 rounded-md transition-colors ${source?.kind === 'file' ? 'bg-emerald-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+      >
+        Video File…
+      </button>
+      <input type="file" ref={fileInputRef} accept="video/*" onChange={handleFileChange} className="hidden" />
+      {source && (
+        <>
+          {source.kind === 'file' && (
+            <>
+              <NumberField
+                label="Offset"
+                title="Seconds your recording runs ahead of the reference"
+                value={offset}
+                min={-MAX_COMPARISON_OFFSET}
+                max={MAX_COMPARISON_OFFSET}
+                step={0.05}
+                onChange={onOffsetChange}
+              />
+              {OFFSET_NUDGES.map(amount => (
+                <button
+                  key={amount}
+                  onClick={() => nudge(amount)}
+                  className="px-2 py-1 rounded-md font-mono text-xs hover:bg-gray-600 transition-colors"
+                >
+                  {amount > 0 ? '+' : ''}{amount}s
+                </button>
+              ))}
+              <button
+                onClick={() => onMutedChange(!isMuted)}
+                title={isMuted ? 'Unmute your recording' : 'Mute your recording'}
+                className="p-1 rounded-full text-gray-300 hover:bg-gray-600 transition-colors"
+              >
+                {isMuted ? <MuteIcon className="w-5 h-5" /> : <VolumeIcon className="w-5 h-5" />}
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => onMirroredChange(!isMirrored)}
+            title="Mirror the comparison"
+            className={`p-1 rounded-full transition-colors ${isMirrored ? 'bg-emerald-500/80 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+          >
+            <MirrorIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onClose} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Close
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonControls;
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export type ComparisonSource =
+  | { kind: 'webcam' }
+  | {
+      kind: 'file';
+      url: string;
+      name: string;
+      /** Comparison seconds per reference second, for recordings made at another speed. Defaults to 1. */
+      timeScale?: number;
+    };
+
+interface ComparisonViewProps {
+  referenceRef: React.RefObject<HTMLVideoElement>;
+  source: ComparisonSource;
+  /** Seconds the comparison video runs ahead of the reference. */
+  offset: number;
+  isMirrored: boolean;
+  isMuted: boolean;
+  className?: string;
+  onCameraError: (message: string) => void;
+}
+
+// Re-seek the follower only when it drifts further than this, so playback stays smooth.
+const DRIFT_TOLERANCE_SECONDS = 0.15;
+
+/**
+ * Second pane next to the reference. A webcam is shown live; a file follows
+ * the reference's time (plus the offset), play state and speed, so the
+ * reference's loop and controls drive both.
+ */
+const ComparisonView: React.FC<ComparisonViewProps> = ({ referenceRef, source, offset, isMirrored, isMuted, className = '', onCameraError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Webcam: open the camera for as long as the pane is showing it.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || source.kind !== 'webcam') return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setStatus('Starting camera…');
+    if (!navigator.mediaDevices?.getUserMedia) {
+      onCameraError('This browser cannot access a camera here. Compare against a video file instead.');
+      return;
+    }
+    navigator.mediaDevices.getUserMedia({ video: true, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        video.srcObject = media;
+        setStatus(null);
+        return video.play();
+      })
+      .catch(error => {
+        console.error('Failed to open the camera', error);
+        if (!cancelled) onCameraError('Could not open the camera. Check the permission, or compare against a video file instead.');
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    };
+  }, [source, onCameraError]);
+
+  // File: follow the reference.
+  useEffect(() => {
+    const reference = referenceRef.current;
+    const follower = videoRef.current;
+    if (!reference || !follower || source.kind !== 'file') return;
+    setStatus(null);
+
+    const timeScale = source.timeScale ?? 1;
+    const targetTime = () => reference.currentTime * timeScale + offset;
+    const isInRange = (time: number) => time >= 0 && (!follower.duration || time <= follower.duration);
+
+    const syncTime = (force: boolean) => {
+      const target = targetTime();
+      const clamped = Math.min(Math.max(target, 0), follower.duration || 0);
+      if (force || Math.abs(follower.currentTime - clamped) > DRIFT_TOLERANCE_SECONDS) {
+        follower.currentTime = clamped;
+      }
+      setStatus(isInRange(target) ? null : target < 0 ? 'Not started yet' : 'Ended');
+    };
+    const syncPlayState = () => {
+      if (reference.paused || !isInRange(targetTime())) {
+        if (!follower.paused) follower.pause();
+      } else if (follower.paused) {
+        follower.play().catch(console.error);
+      }
+    };
+    const syncRate = () => {
+      follower.playbackRate = Math.min(16, Math.max(0.0625, reference.playbackRate * timeScale));
+    };
+    const handleSeek = () => syncTime(true);
+    const handleTimeUpdate = () => {
+      syncTime(false);
+      syncPlayState();
+    };
+    const handleReady = () => {
+      syncRate();
+      syncTime(true);
+      syncPlayState();
+    };
+
+    reference.addEventListener('play', syncPlayState);
+    reference.addEventListener('pause', syncPlayState);
+    reference.addEventListener('ratechange', syncRate);
+    reference.addEventListener('seeking', handleSeek);
+    reference.addEventListener('timeupdate', handleTimeUpdate);
+    follower.addEventListener('loadedmetadata', handleReady);
+    if (follower.readyState >= HTMLMediaElement.HAVE_METADATA) handleReady();
+    return () => {
+      reference.removeEventListener('play', syncPlayState);
+      reference.removeEventListener('pause', syncPlayState);
+      reference.removeEventListener('ratechange', syncRate);
+      reference.removeEventListener('seeking', handleSeek);
+      reference.removeEventListener('timeupdate', handleTimeUpdate);
+      follower.removeEventListener('loadedmetadata', handleReady);
+    };
+  }, [referenceRef, source, offset]);
+
+  return (
+    <div className={`relative bg-black ${className}`}>
+      <video
+        ref={videoRef}
+        src={source.kind === 'file' ? source.url : undefined}
+        muted={source.kind === 'webcam' || isMuted}
+        playsInline
+        className={`w-full h-full ${isMirrored ? '-scale-x-100' : ''}`}
+      />
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-xs text-gray-200 pointer-events-none">
+        {source.kind === 'webcam' ? 'Camera' : source.name}
+      </span>
+      {status && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <span className="px-3 py-1 rounded bg-black/60 text-sm text-gray-300">{status}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
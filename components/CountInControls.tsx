@@ -0,0 +1,75 @@
+import React from 'react';
+
+export interface CountInSettings {
+  enabled: boolean;
+  beats: number;
+  audible: boolean;
+}
+
+interface CountInControlsProps {
+  countIn: CountInSettings;
+  metronomeEnabled: boolean;
+  hasTempo: boolean;
+  onCountInChange: (settings: CountInSettings) => void;
+  onMetronomeChange: (enabled: boolean) => void;
+}
+
+const COUNT_IN_BEAT_OPTIONS = [2, 4, 8];
+
+const CountInControls: React.FC<CountInControlsProps> = ({
+  countIn,
+  metronomeEnabled,
+  hasTempo,
+  onCountInChange,
+  onMetronomeChange,
+}) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    <span className="text-xs font-bold text-gray-400 mr-1">COUNT-IN</span>
+    <label className="flex items-center gap-1 px-2 py-1 rounded-md cursor-pointer">
+      <input
+        type="checkbox"
+        checked={countIn.enabled}
+        onChange={(e) => onCountInChange({ ...countIn, enabled: e.target.checked })}
+        className="accent-emerald-500"
+      />
+      Before each loop
+    </label>
+    <select
+      value={countIn.beats}
+      onChange={(e) => onCountInChange({ ...countIn, beats: Number(e.target.value) })}
+      title="Number of count-in beats"
+      className="bg-gray-700 rounded-md px-2 py-1 outline-none"
+    >
+      {COUNT_IN_BEAT_OPTIONS.map(beats => (
+        <option key={beats} value={beats}>{beats} beats</option>
+      ))}
+    </select>
+    <select
+      value={countIn.audible ? 'clicks' : 'silent'}
+      onChange={(e) => onCountInChange({ ...countIn, audible: e.target.value === 'clicks' })}
+      title="Count-in sound"
+      className="bg-gray-700 rounded-md px-2 py-1 outline-none"
+    >
+      <option value="clicks">Clicks</option>
+      <option value="silent">Silent</option>
+    </select>
+    <label
+      className={`flex items-center gap-1 px-2 py-1 rounded-md ml-2 ${hasTempo ? 'cursor-pointer' : 'opacity-50'}`}
+      title={hasTempo ? 'Click on every beat of the tempo grid' : 'Set a tempo to use the metronome'}
+    >
+      <input
+        type="checkbox"
+        checked={metronomeEnabled}
+        disabled={!hasTempo}
+        onChange={(e) => onMetronomeChange(e.target.checked)}
+        className="accent-emerald-500"
+      />
+      Metronome
+    </label>
+    {!hasTempo && countIn.enabled && (
+      <span className="text-xs text-gray-500">Counting at 120 BPM until a tempo is set.</span>
+    )}
+  </div>
+);
+
+export default CountInControls;
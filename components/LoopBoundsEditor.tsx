@@ -0,0 +1,81 @@
+import React from 'react';
+import TimeInput from './TimeInput';
+import { validateRangeStart, validateRangeEnd } from '../utils/timeRange';
+
+interface LoopBoundsEditorProps {
+  loopStart: number;
+  loopEnd: number;
+  duration: number;
+  frameRate: number;
+  onChangeStart: (time: number) => void;
+  onChangeEnd: (time: number) => void;
+}
+
+const NUDGE_SECONDS = 0.1;
+
+const NudgeButton: React.FC<{ label: string; title: string; onClick: () => void }> = ({ label, title, onClick }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    className="px-1.5 py-0.5 text-xs font-mono rounded bg-gray-700 hover:bg-gray-600 transition-colors"
+  >
+    {label}
+  </button>
+);
+
+const LoopBoundsEditor: React.FC<LoopBoundsEditorProps> = ({
+  loopStart,
+  loopEnd,
+  duration,
+  frameRate,
+  onChangeStart,
+  onChangeEnd,
+}) => {
+  const frame = 1 / frameRate;
+
+  const nudgeStart = (delta: number) => {
+    const time = Math.max(0, loopStart + delta);
+    if (!validateRangeStart(time, loopEnd)) onChangeStart(time);
+  };
+
+  const nudgeEnd = (delta: number) => {
+    const time = duration > 0 ? Math.min(duration, loopEnd + delta) : loopEnd + delta;
+    if (!validateRangeEnd(time, loopStart, duration)) onChangeEnd(time);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+      <div className="flex items-center gap-1">
+        <span className="text-xs font-bold text-green-300 mr-1">START</span>
+        <NudgeButton label="-0.1s" title="Move loop start back 0.1 seconds" onClick={() => nudgeStart(-NUDGE_SECONDS)} />
+        <NudgeButton label="-1f" title="Move loop start back one frame" onClick={() => nudgeStart(-frame)} />
+        <TimeInput
+          value={loopStart}
+          label="Loop start"
+          validate={(time) => validateRangeStart(time, loopEnd)}
+          onChange={onChangeStart}
+          className="text-center text-green-300"
+        />
+        <NudgeButton label="+1f" title="Move loop start forward one frame" onClick={() => nudgeStart(frame)} />
+        <NudgeButton label="+0.1s" title="Move loop start forward 0.1 seconds" onClick={() => nudgeStart(NUDGE_SECONDS)} />
+      </div>
+      <div className="flex items-center gap-1">
+        <span className="text-xs font-bold text-red-300 mr-1">END</span>
+        <NudgeButton label="-0.1s" title="Move loop end back 0.1 seconds" onClick={() => nudgeEnd(-NUDGE_SECONDS)} />
+        <NudgeButton label="-1f" title="Move loop end back one frame" onClick={() => nudgeEnd(-frame)} />
+        <TimeInput
+          value={loopEnd}
+          label="Loop end"
+          validate={(time) => validateRangeEnd(time, loopStart, duration)}
+          onChange={onChangeEnd}
+          className="text-center text-red-300"
+        />
+        <NudgeButton label="+1f" title="Move loop end forward one frame" onClick={() => nudgeEnd(frame)} />
+        <NudgeButton label="+0.1s" title="Move loop end forward 0.1 seconds" onClick={() => nudgeEnd(NUDGE_SECONDS)} />
+      </div>
+      <span className="text-xs text-gray-500 font-mono">{frameRate} fps</span>
+    </div>
+  );
+};
+
+export default LoopBoundsEditor;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled?: boolean;
+  title?: string;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Compact labelled number input that clamps what it reports to [min, max].
+ * Out-of-range text is kept while typing (so "0.75" can pass through "0") and
+ * only clamped on blur or Enter.
+ */
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step, disabled = false, title, onChange }) => {
+  const [text, setText] = useState(String(value));
+
+  // Leave text that already reads as the value alone, so "1." isn't rewritten to "1" mid-typing.
+  useEffect(() => {
+    setText(current => (parseFloat(current) === value ? current : String(value)));
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const parsed = parseFloat(next);
+    if (Number.isFinite(parsed) && parsed >= min && parsed <= max) onChange(parsed);
+  };
+
+  const commit = () => {
+    const parsed = parseFloat(text);
+    if (Number.isFinite(parsed)) {
+      const clamped = Math.min(max, Math.max(min, parsed));
+      setText(String(clamped));
+      if (clamped !== value) onChange(clamped);
+    } else {
+      setText(String(value));
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-1 text-gray-400" title={title}>
+      {label}
+      <input
+        type="number"
+        value={text}
+        min={min}
+        max={max}
+        step={step}
+        disabled={disabled}
+        onChange={(e) => handleChange(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-16 bg-gray-700 rounded-md px-2 py-1 font-mono text-white outline-none focus:ring-1 focus:ring-emerald-400 disabled:opacity-50"
+      />
+    </label>
+  );
+};
+
+export default NumberField;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Step } from './VideoPlayer';
+import NumberField from './NumberField';
+import {
+  PlaylistItem,
+  PlaylistRun,
+  MAX_PLAYLIST_REPEATS,
+  MAX_PLAYLIST_PAUSE_SECONDS,
+  createPlaylistItem,
+  playlistItemName,
+  playlistProgress,
+} from '../utils/playlist';
+import { MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from '../utils/speedTrainer';
+
+interface PlaylistPanelProps {
+  items: PlaylistItem[];
+  steps: Step[];
+  run: PlaylistRun | null;
+  onChange: (items: PlaylistItem[]) => void;
+  onStart: () => void;
+  onRunWholePiece: () => void;
+  onStop: () => void;
+}
+
+const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ items, steps, run, onChange, onStart, onRunWholePiece, onStop }) => {
+  const [selectedStepId, setSelectedStepId] = useState('');
+
+  const updateItem = (id: string, patch: Partial<PlaylistItem>) =>
+    onChange(items.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    const stepId = steps.some(step => step.id === selectedStepId) ? selectedStepId : steps[0]?.id;
+    if (stepId) {
+      onChange([...items, createPlaylistItem([stepId])]);
+    }
+  };
+
+  const currentItem = run ? run.items[run.itemIndex] : null;
+  const progress = run ? playlistProgress(run) : 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700 space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <h3 className="flex-grow text-lg font-bold text-emerald-400">Routine</h3>
+        <button
+          onClick={onRunWholePiece}
+          disabled={steps.length === 0}
+          title="Play every step once, in video order"
+          className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+        >
+          Run Piece
+        </button>
+        {run ? (
+          <button onClick={onStop} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={items.length === 0}
+            title="Play the routine from the top"
+            className="px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white disabled:opacity-50 transition-colors"
+          >
+            Start
+          </button>
+        )}
+      </div>
+
+      {run && currentItem && (
+        <div className="space-y-1">
+          <div className="flex justify-between gap-2 text-xs font-mono text-emerald-400">
+            <span className="truncate">
+              {run.finished
+                ? 'Routine complete'
+                : `${run.itemIndex + 1}/${run.items.length} · ${playlistItemName(currentItem, steps)} · rep ${run.rep + 1}/${currentItem.repeats} · ${currentItem.rate}x`}
+            </span>
+            <span>{Math.round(progress * 100)}%</span>
+          </div>
+          <div className="h-1.5 rounded bg-gray-700 overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {items.map((item, index) => {
+        const isCurrent = !!currentItem && !run?.finished && currentItem.id === item.id;
+        const combinable = steps.filter(step => !item.stepIds.includes(step.id));
+        return (
+          <div key={item.id} className={`p-2 rounded-lg bg-gray-700/50 space-y-2 ${isCurrent ? 'ring-1 ring-emerald-400' : ''}`}>
+            <div className="flex items-center gap-1">
+              <span className="flex-grow truncate font-semibold">{index + 1}. {playlistItemName(item, steps)}</span>
+              <button onClick={() => moveItem(index, -1)} disabled={index === 0} title="Move up" className="px-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30">↑</button>
+              <button onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} title="Move down" className="px-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30">↓</button>
+              <button onClick={() => onChange(items.filter(other => other.id !== item.id))} title="Remove from routine" className="px-1 rounded text-gray-400 hover:text-red-300 hover:bg-red-500/20">×</button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <NumberField label="×" title="Repetitions" value={item.repeats} min={1} max={MAX_PLAYLIST_REPEATS} step={1} onChange={(repeats) => updateItem(item.id, { repeats: Math.round(repeats) })} />
+              <NumberField label="Speed" value={item.rate} min={MIN_PLAYBACK_RATE} max={MAX_PLAYBACK_RATE} step={0.05} onChange={(rate) => updateItem(item.id, { rate })} />
+              <NumberField label="Rest" title="Seconds to rest after each repetition" value={item.pauseSeconds} min={0} max={MAX_PLAYLIST_PAUSE_SECONDS} step={1} onChange={(pauseSeconds) => updateItem(item.id, { pauseSeconds })} />
+              {combinable.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => updateItem(item.id, { stepIds: [...item.stepIds, e.target.value] })}
+                  title="Play another step together with this one"
+                  className="bg-gray-700 rounded-md px-2 py-1 text-gray-300 outline-none focus:ring-1 focus:ring-emerald-400"
+                >
+                  <option value="">+ Combine</option>
+                  {combinable.map(step => (
+                    <option key={step.id} value={step.id}>{step.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {steps.length > 0 ? (
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedStepId}
+            onChange={(e) => setSelectedStepId(e.target.value)}
+            className="flex-grow min-w-0 bg-gray-700 rounded-md px-2 py-1 outline-none focus:ring-1 focus:ring-emerald-400"
+          >
+            {steps.map(step => (
+              <option key={step.id} value={step.id}>{step.name}</option>
+            ))}
+          </select>
+          <button onClick={handleAdd} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Add to Routine
+          </button>
+        </div>
+      ) : (
+        <p className="text-gray-500">Add steps to build a practice routine.</p>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistPanel;
@@ -0,0 +1,177 @@
+import React, { useEffect } from 'react';
+import type { Step } from './VideoPlayer';
+import { masteryLabel } from '../utils/stepMetadata';
+import {
+  PracticeStats,
+  FREE_PRACTICE_KEY,
+  localDateKey,
+  stepTotals,
+  dailyTotals,
+  speedsUsed,
+  masteryHistory,
+  formatDuration,
+} from '../utils/practiceStats';
+
+// Older days are still in the CSV export.
+const HISTORY_DAYS_SHOWN = 14;
+
+interface PracticeDashboardProps {
+  stats: PracticeStats;
+  steps: Step[];
+  showHeatmap: boolean;
+  onToggleHeatmap: () => void;
+  onPlayStep: (step: Step) => void;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const PracticeDashboard: React.FC<PracticeDashboardProps> = ({
+  stats,
+  steps,
+  showHeatmap,
+  onToggleHeatmap,
+  onPlayStep,
+  onExportCsv,
+  onClose,
+}) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const totals = stepTotals(stats);
+  const days = dailyTotals(stats);
+  const today = days.find(day => day.date === localDateKey(new Date()));
+  const allTime = days.reduce((sum, day) => sum + day.practice.seconds, 0);
+  const allReps = days.reduce((sum, day) => sum + day.practice.reps, 0);
+  const freePractice = totals[FREE_PRACTICE_KEY];
+  // Least practised first: those are the ones that need attention.
+  const rankedSteps = [...steps].sort((a, b) => (totals[a.id]?.seconds ?? 0) - (totals[b.id]?.seconds ?? 0));
+  const mostStepSeconds = Math.max(0, ...steps.map(step => totals[step.id]?.seconds ?? 0));
+  const recentDays = days.slice(0, HISTORY_DAYS_SHOWN);
+  const mostDaySeconds = Math.max(0, ...recentDays.map(day => day.practice.seconds));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-5 text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-emerald-400">Practice Stats</h2>
+          <button onClick={onClose} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Close
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            { label: 'Today', value: formatDuration(today?.practice.seconds ?? 0) },
+            { label: 'All time', value: formatDuration(allTime) },
+            { label: 'Repetitions', value: String(allReps) },
+            { label: 'Days practised', value: String(days.length) },
+          ].map(({ label, value }) => (
+            <div key={label} className="bg-gray-700/60 rounded-md p-3">
+              <p className="text-xs text-gray-400">{label}</p>
+              <p className="text-lg font-semibold text-white">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        <section>
+          <h3 className="text-xs font-bold text-gray-400 mb-2">STEPS, LEAST PRACTISED FIRST</h3>
+          {steps.length === 0 ? (
+            <p className="text-gray-500">Add steps to track practice on each of them.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {rankedSteps.map(step => {
+                const practice = totals[step.id];
+                const changes = masteryHistory(stats, step.id);
+                const share = mostStepSeconds > 0 ? (practice?.seconds ?? 0) / mostStepSeconds : 0;
+                return (
+                  <li key={step.id} className="py-2 space-y-1">
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => onPlayStep(step)}
+                        title={`Practise ${step.name}`}
+                        className="min-w-0 truncate text-left font-semibold text-gray-200 hover:text-emerald-300"
+                      >
+                        {step.name}
+                      </button>
+                      <span className="ml-auto shrink-0 text-gray-400">
+                        {practice?.reps ?? 0} reps · {formatDuration(practice?.seconds ?? 0)}
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-emerald-400" style={{ width: `${share * 100}%` }} />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {practice ? `Speeds: ${speedsUsed(practice).join(', ')}` : 'Not practised yet'}
+                      {' · '}
+                      {changes.length > 0
+                        ? changes.map(change => `${masteryLabel(change.mastery)} (${formatDay(localDateKey(new Date(change.at)))})`).join(' → ')
+                        : masteryLabel(step.mastery)}
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {freePractice && (
+            <p className="text-xs text-gray-500 mt-2">
+              Plus {formatDuration(freePractice.seconds)} and {freePractice.reps} reps without a step selected.
+            </p>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-xs font-bold text-gray-400 mb-2">DAILY HISTORY</h3>
+          {recentDays.length === 0 ? (
+            <p className="text-gray-500">Nothing practised yet. Time counts while the video plays.</p>
+          ) : (
+            <ul className="space-y-1">
+              {recentDays.map(({ date, practice }) => (
+                <li key={date} className="flex items-center gap-3">
+                  <span className="w-28 shrink-0 text-gray-400">{formatDay(date)}</span>
+                  <div className="flex-1 h-3 bg-gray-700 rounded-sm overflow-hidden">
+                    <div
+                      className="h-full bg-emerald-500"
+                      style={{ width: `${mostDaySeconds > 0 ? (practice.seconds / mostDaySeconds) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="w-32 shrink-0 text-right text-gray-400">
+                    {formatDuration(practice.seconds)} · {practice.reps} reps
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <div className="flex items-center justify-between pt-2 border-t border-gray-700">
+          <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={showHeatmap} onChange={onToggleHeatmap} className="accent-emerald-500" />
+            Show practice heatmap on the timeline
+          </label>
+          <button
+            onClick={onExportCsv}
+            disabled={days.length === 0}
+            className="px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white transition-colors disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeDashboard;
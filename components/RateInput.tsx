@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE, clampPlaybackRate } from '../utils/speedTrainer';
+
+interface RateInputProps {
+  rate: number;
+  onChange: (rate: number) => void;
+}
+
+/** Free-form playback rate entry for speeds between the presets, e.g. 0.85x. */
+const RateInput: React.FC<RateInputProps> = ({ rate, onChange }) => {
+  const [text, setText] = useState(String(rate));
+
+  useEffect(() => {
+    setText(String(rate));
+  }, [rate]);
+
+  const commit = () => {
+    const parsed = parseFloat(text);
+    if (Number.isFinite(parsed)) {
+      const clamped = clampPlaybackRate(parsed);
+      setText(String(clamped));
+      onChange(clamped);
+    } else {
+      setText(String(rate));
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-1 ml-1" title={`Custom speed (${MIN_PLAYBACK_RATE}x–${MAX_PLAYBACK_RATE}x)`}>
+      <input
+        type="number"
+        value={text}
+        min={MIN_PLAYBACK_RATE}
+        max={MAX_PLAYBACK_RATE}
+        step={0.05}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-16 bg-gray-700 rounded-md px-2 py-1 text-sm font-mono text-white outline-none focus:ring-1 focus:ring-emerald-400"
+        aria-label="Custom playback speed"
+      />
+      <span className="text-sm text-gray-400">x</span>
+    </label>
+  );
+};
+
+export default RateInput;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { PracticeSession } from '../utils/sessionStore';
+import { formatTime } from '../utils/formatTime';
+import { DeleteIcon } from './icons';
+
+interface RecentSessionsProps {
+  sessions: PracticeSession[];
+  onOpen: (session: PracticeSession) => void;
+  onDelete: (fingerprint: string) => void;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const RecentSessions: React.FC<RecentSessionsProps> = ({ sessions, onOpen, onDelete }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-xl mt-8 text-left">
+      <h2 className="text-sm font-bold text-gray-400 uppercase tracking-wide mb-2">Recent sessions</h2>
+      <ul className="space-y-2">
+        {sessions.map(session => (
+          <li key={session.fingerprint} className="flex items-center gap-3 p-3 rounded-lg bg-gray-700/50">
+            <button
+              onClick={() => onOpen(session)}
+              title={`Reopen ${session.videoName}`}
+              className="flex-grow min-w-0 text-left"
+            >
+              <p className="font-semibold text-white truncate">{session.videoName}</p>
+              <p className="text-xs text-gray-400">
+                {session.steps.length} {session.steps.length === 1 ? 'step' : 'steps'}
+                {' · '}{formatTime(session.duration)}
+                {' · '}{formatDate(session.updatedAt)}
+              </p>
+            </button>
+            <button
+              onClick={() => onDelete(session.fingerprint)}
+              title={`Forget session for ${session.videoName}`}
+              className="p-2 rounded-full text-gray-400 hover:bg-red-500/30 hover:text-red-300 transition-colors flex-shrink-0"
+            >
+              <DeleteIcon className="w-5 h-5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500 mt-2">Reopening a session asks you to pick its video file again; videos opened from a URL reload from it.</p>
+    </div>
+  );
+};
+
+export default RecentSessions;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Step } from './VideoPlayer';
+import { ReviewRating, ReviewRun, ReviewSchedule, REVIEW_RATINGS, daysBetween } from '../utils/reviewSchedule';
+
+interface ReviewQueuePanelProps {
+  steps: Step[];
+  /** Step ids due today, in the order they'll be played. */
+  queue: string[];
+  schedule: ReviewSchedule;
+  today: string;
+  nextDue: string | null;
+  run: ReviewRun | null;
+  onStart: () => void;
+  onStop: () => void;
+  onRate: (rating: ReviewRating) => void;
+}
+
+const stepName = (steps: Step[], id: string): string =>
+  steps.find(step => step.id === id)?.name ?? 'Missing step';
+
+const dueLabel = (schedule: ReviewSchedule, id: string, today: string): string => {
+  const state = schedule[id];
+  if (!state) return 'new';
+  const overdue = daysBetween(state.due, today);
+  return overdue > 0 ? `${overdue}d overdue` : 'due';
+};
+
+/** Today's spaced-repetition queue: steps come back sooner when they went badly, later when they went well. */
+const ReviewQueuePanel: React.FC<ReviewQueuePanelProps> = ({ steps, queue, schedule, today, nextDue, run, onStart, onStop, onRate }) => {
+  const currentId = run?.queue[0];
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700 space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <h3 className="flex-grow text-lg font-bold text-emerald-400">Today</h3>
+        {run ? (
+          <button onClick={onStop} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            {currentId ? 'Stop' : 'Done'}
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={queue.length === 0}
+            title="Play each scheduled step in turn, rating it after you've run it"
+            className="px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white disabled:opacity-50 transition-colors"
+          >
+            Start today's session
+          </button>
+        )}
+      </div>
+
+      {run ? (
+        currentId ? (
+          <div className="p-2 rounded-lg bg-gray-700/50 ring-1 ring-emerald-400 space-y-2">
+            <div className="flex justify-between gap-2 text-xs font-mono text-emerald-400">
+              <span className="truncate">{stepName(steps, currentId)}</span>
+              <span className="shrink-0">{run.queue.length} left</span>
+            </div>
+            <p className="text-xs text-gray-400">Run it until you can judge it, then rate how it went:</p>
+            <div className="grid grid-cols-4 gap-1">
+              {REVIEW_RATINGS.map(rating => (
+                <button
+                  key={rating.value}
+                  onClick={() => onRate(rating.value)}
+                  title={rating.title}
+                  className={`px-2 py-1 rounded-md transition-colors ${rating.className}`}
+                >
+                  {rating.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-emerald-300">Session complete: {run.reviewed} reviews.</p>
+        )
+      ) : queue.length > 0 ? (
+        <ul className="space-y-1">
+          {queue.map(id => (
+            <li key={id} className="flex justify-between gap-2 px-2 py-1 rounded bg-gray-700/50">
+              <span className="truncate">{stepName(steps, id)}</span>
+              <span className="shrink-0 text-xs text-gray-400">{dueLabel(schedule, id, today)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500">
+          {steps.length === 0
+            ? 'Add steps to get a daily review queue.'
+            : `Nothing due today.${nextDue ? ` Next review: ${new Date(`${nextDue}T00:00`).toLocaleDateString()}.` : ''}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueuePanel;
@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Step } from './VideoPlayer';
+import { Annotation } from '../utils/annotations';
+import { formatTime } from '../utils/formatTime';
+import { formatBytes } from '../utils/formatBytes';
+import { fileBaseName, downloadBlob } from '../utils/download';
+import { recordingExtension } from '../utils/takeRecorder';
+import { supportsClipExport, isAbortError, renderClip } from '../utils/clipExport';
+import { MAX_ZIP_BYTES } from '../utils/zipArchive';
+import { PackageSettings, PackageMediaSource, PACKAGE_EXTENSION, createPracticePackage } from '../utils/practicePackage';
+
+type ShareKind = 'video' | 'clips';
+
+interface SharePackageDialogProps {
+  videoUrl: string;
+  videoName: string;
+  videoSize: number;
+  duration: number;
+  fingerprint: string | null;
+  steps: Step[];
+  annotations: Annotation[];
+  settings: PackageSettings;
+  onClose: () => void;
+}
+
+/** Bundles the video, or clips of chosen steps, with the steps and settings so a teammate can open it as is. */
+const SharePackageDialog: React.FC<SharePackageDialogProps> = ({
+  videoUrl,
+  videoName,
+  videoSize,
+  duration,
+  fingerprint,
+  steps,
+  annotations,
+  settings,
+  onClose,
+}) => {
+  const [kind, setKind] = useState<ShareKind>('video');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [status, setStatus] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog cancels a package being made.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const selectedSteps = steps.filter(step => selectedIds.includes(step.id));
+  const clipSeconds = selectedSteps.reduce((sum, step) => sum + step.end - step.start, 0);
+  const isExporting = progress !== null;
+  const baseName = fileBaseName(videoName) || 'practice';
+
+  const toggleStep = (id: string) =>
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(other => other !== id) : [...selectedIds, id]);
+
+  const collectMedia = async (signal: AbortSignal): Promise<PackageMediaSource[]> => {
+    if (kind === 'video') {
+      setStatus('Reading the video…');
+      const response = await fetch(videoUrl, { signal });
+      if (!response.ok) throw new Error(`Could not read the video (HTTP ${response.status}).`);
+      return [{ blob: await response.blob(), name: videoName, start: 0, end: duration }];
+    }
+    const sources: PackageMediaSource[] = [];
+    for (const [index, step] of selectedSteps.entries()) {
+      setStatus(`Recording ${step.name} (${index + 1}/${selectedSteps.length})…`);
+      const blob = await renderClip(
+        videoUrl,
+        { start: step.start, end: step.end, rate: 1, mirrored: false, repeats: 1, countInBeats: 0, countInClicks: false, beatSeconds: 0 },
+        fraction => setProgress(((index + fraction) / selectedSteps.length) * 0.8),
+        signal,
+      );
+      sources.push({
+        blob,
+        name: `${baseName}_${step.name.replace(/[^\w-]+/g, '_')}.${recordingExtension(blob.type)}`,
+        start: step.start,
+        end: step.end,
+        stepIds: [step.id],
+      });
+    }
+    return sources;
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const sources = await collectMedia(controller.signal);
+      if (sources.reduce((sum, source) => sum + source.blob.size, 0) > MAX_ZIP_BYTES) {
+        alert('The package would be larger than 4 GB. Share a few step clips instead of the whole video.');
+        setProgress(null);
+        setStatus('');
+        return;
+      }
+      const recorded = kind === 'clips' ? 0.8 : 0;
+      setStatus('Packaging…');
+      const pkg = await createPracticePackage(
+        { name: videoName, duration, fingerprint },
+        steps,
+        annotations,
+        settings,
+        sources,
+        fraction => setProgress(recorded + fraction * (1 - recorded)),
+      );
+      if (controller.signal.aborted) return;
+      downloadBlob(pkg, `${baseName}${PACKAGE_EXTENSION}`);
+      onClose();
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Failed to create practice package', error);
+        alert('Could not create the package. The video may not be readable from this page.');
+      }
+      setProgress(null);
+      setStatus('');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={isExporting ? undefined : onClose}>
+      <div
+        className="w-full max-w-md max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-4 text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-xl font-bold text-emerald-400">Share Practice Package</h2>
+          <p className="text-gray-400">One file with the video, steps, annotations and settings. Teammates open it from the start screen.</p>
+        </div>
+        <div className="flex rounded-md overflow-hidden border border-gray-600">
+          <button
+            onClick={() => setKind('video')}
+            disabled={isExporting}
+            className={`flex-1 px-3 py-1 transition-colors disabled:opacity-50 ${kind === 'video' ? 'bg-emerald-500 text-white' : 'hover:bg-gray-600'}`}
+          >
+            Whole Video
+          </button>
+          <button
+            onClick={() => setKind('clips')}
+            disabled={isExporting || !supportsClipExport() || steps.length === 0}
+            className={`flex-1 px-3 py-1 transition-colors disabled:opacity-50 ${kind === 'clips' ? 'bg-emerald-500 text-white' : 'hover:bg-gray-600'}`}
+          >
+            Step Clips
+          </button>
+        </div>
+        {kind === 'video' ? (
+          <p className="text-xs text-gray-400">
+            Includes the full video{videoSize > 0 ? ` (${formatBytes(videoSize)})` : ''} and all {steps.length} steps.
+          </p>
+        ) : (
+          <>
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+              {steps.map(step => (
+                <li key={step.id}>
+                  <label className="flex items-center gap-2 px-2 py-1 rounded bg-gray-700/50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(step.id)}
+                      disabled={isExporting}
+                      onChange={() => toggleStep(step.id)}
+                      className="accent-emerald-500"
+                    />
+                    <span className="flex-grow truncate">{step.name}</span>
+                    <span className="font-mono text-xs text-gray-400">{formatTime(step.end - step.start)}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-400">
+              Each step is recorded as its own clip, in real time (about {formatTime(clipSeconds)}). Keep this tab in front while it records.
+            </p>
+          </>
+        )}
+        {isExporting && (
+          <div className="space-y-1">
+            <p className="text-xs text-gray-400">{status}</p>
+            <div className="h-2 rounded bg-gray-700 overflow-hidden" role="progressbar" aria-valuenow={Math.round(progress * 100)} aria-valuemin={0} aria-valuemax={100}>
+              <div className="h-full bg-emerald-500 transition-[width]" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <button onClick={handleCancel} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || (kind === 'clips' && selectedSteps.length === 0)}
+            className="px-4 py-2 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white font-semibold transition-colors disabled:opacity-50"
+          >
+            {isExporting ? 'Creating…' : 'Create Package'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePackageDialog;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Keymap,
+  ShortcutAction,
+  SHORTCUTS,
+  DEFAULT_KEYMAP,
+  comboFromEvent,
+  isModifierKey,
+  formatCombo,
+  bindCombo,
+  unbindCombo,
+  findShortcutAction,
+} from '../utils/shortcuts';
+
+interface ShortcutsOverlayProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ keymap, onChange, onClose }) => {
+  const [listeningFor, setListeningFor] = useState<ShortcutAction | null>(null);
+
+  // While open, the overlay owns the keyboard: it records new bindings or closes.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isModifierKey(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const combo = comboFromEvent(e);
+      if (listeningFor) {
+        if (combo !== 'Escape') {
+          onChange(bindCombo(keymap, listeningFor, combo));
+        }
+        setListeningFor(null);
+      } else if (combo === 'Escape' || findShortcutAction(keymap, combo) === 'showShortcuts') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, { capture: true });
+    };
+  }, [keymap, listeningFor, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-emerald-400">Keyboard Shortcuts</h2>
+          <button onClick={onClose} className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Close
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Click "+" and press any key to bind it, including keys from a page turner or foot pedal.
+          A key can only belong to one action.
+        </p>
+        <ul className="divide-y divide-gray-700">
+          {SHORTCUTS.map(({ action, label }) => (
+            <li key={action} className="flex items-center justify-between gap-4 py-2">
+              <span className="text-sm">{label}</span>
+              <div className="flex flex-wrap items-center justify-end gap-1">
+                {keymap[action].map(combo => (
+                  <span key={combo} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded bg-gray-700 font-mono text-xs">
+                    {formatCombo(combo)}
+                    <button
+                      onClick={() => onChange(unbindCombo(keymap, action, combo))}
+                      title={`Remove ${formatCombo(combo)}`}
+                      className="px-1 rounded text-gray-400 hover:text-red-300 hover:bg-red-500/20"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                <button
+                  onClick={() => setListeningFor(listeningFor === action ? null : action)}
+                  title={`Add a key for "${label}"`}
+                  className={`px-2 py-0.5 rounded text-xs transition-colors ${listeningFor === action ? 'bg-emerald-500 text-white animate-pulse' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                  {listeningFor === action ? 'Press a key…' : '+'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={() => onChange(DEFAULT_KEYMAP)}
+            className="px-3 py-1 text-sm rounded-md text-gray-300 hover:bg-gray-600 transition-colors"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
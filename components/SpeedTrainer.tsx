@@ -0,0 +1,80 @@
+import React from 'react';
+import {
+  SpeedTrainerSettings,
+  SpeedTrainerState,
+  MIN_PLAYBACK_RATE,
+  MAX_PLAYBACK_RATE,
+} from '../utils/speedTrainer';
+import NumberField from './NumberField';
+
+interface SpeedTrainerProps {
+  settings: SpeedTrainerSettings;
+  state: SpeedTrainerState | null;
+  onSettingsChange: (settings: SpeedTrainerSettings) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onConfirm: () => void;
+}
+
+const SpeedTrainer: React.FC<SpeedTrainerProps> = ({
+  settings,
+  state,
+  onSettingsChange,
+  onStart,
+  onStop,
+  onConfirm,
+}) => {
+  const isRunning = state !== null;
+  const update = (patch: Partial<SpeedTrainerSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-xs font-bold text-gray-400 mr-1">TRAINER</span>
+      <NumberField label="From" value={settings.startRate} min={MIN_PLAYBACK_RATE} max={MAX_PLAYBACK_RATE} step={0.05} disabled={isRunning} onChange={(startRate) => update({ startRate })} />
+      <NumberField label="To" value={settings.targetRate} min={MIN_PLAYBACK_RATE} max={MAX_PLAYBACK_RATE} step={0.05} disabled={isRunning} onChange={(targetRate) => update({ targetRate })} />
+      <NumberField label="+" value={settings.increment} min={0.01} max={1} step={0.05} disabled={isRunning} onChange={(increment) => update({ increment })} />
+      <NumberField label="Reps" value={settings.repsPerLevel} min={1} max={50} step={1} disabled={isRunning} onChange={(repsPerLevel) => update({ repsPerLevel: Math.round(repsPerLevel) })} />
+      <label className={`flex items-center gap-1 px-2 py-1 rounded-md ${isRunning ? 'opacity-50' : 'cursor-pointer'}`}>
+        <input
+          type="checkbox"
+          checked={settings.holdForConfirmation}
+          disabled={isRunning}
+          onChange={(e) => update({ holdForConfirmation: e.target.checked })}
+          className="accent-emerald-500"
+        />
+        Hold until "Got it"
+      </label>
+      {isRunning ? (
+        <>
+          <span className="font-mono text-emerald-400 px-2">
+            {state.finished
+              ? `Target reached · ${state.rate}x · rep ${state.rep}`
+              : `${state.rate}x · rep ${Math.min(state.rep, settings.repsPerLevel)}/${settings.repsPerLevel}`}
+          </span>
+          {state.awaitingConfirmation && (
+            <button
+              onClick={onConfirm}
+              title="Move up to the next speed"
+              className="px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white transition-colors"
+            >
+              Got it
+            </button>
+          )}
+          <button onClick={onStop} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+            Stop
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={onStart}
+          title="Loop the current section, speeding up after each set of reps"
+          className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          Start
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SpeedTrainer;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Step } from './VideoPlayer';
+import { MASTERY_LEVELS, MAX_DIFFICULTY, StepMetadata, parseTags } from '../utils/stepMetadata';
+
+interface StepDetailsEditorProps {
+  step: Step;
+  /** Tags offered while typing: those used on other steps plus common ones. */
+  suggestedTags: string[];
+  onChange: (patch: StepMetadata) => void;
+}
+
+const StepDetailsEditor: React.FC<StepDetailsEditorProps> = ({ step, suggestedTags, onChange }) => {
+  const [notes, setNotes] = useState(step.notes ?? '');
+  const [counts, setCounts] = useState(step.counts ?? '');
+  const [tagText, setTagText] = useState('');
+  const tags = step.tags ?? [];
+  const datalistId = `tag-suggestions-${step.id}`;
+
+  useEffect(() => {
+    setNotes(step.notes ?? '');
+  }, [step.notes]);
+
+  useEffect(() => {
+    setCounts(step.counts ?? '');
+  }, [step.counts]);
+
+  const commitNotes = () => {
+    if (notes !== (step.notes ?? '')) onChange({ notes: notes.trim() === '' ? undefined : notes });
+  };
+
+  const commitCounts = () => {
+    const trimmed = counts.trim();
+    if (trimmed !== (step.counts ?? '')) onChange({ counts: trimmed === '' ? undefined : trimmed });
+  };
+
+  const addTags = () => {
+    const added = parseTags(tagText).filter(tag => !tags.includes(tag));
+    if (added.length > 0) onChange({ tags: [...tags, ...added] });
+    setTagText('');
+  };
+
+  const removeTag = (tag: string) => {
+    const remaining = tags.filter(other => other !== tag);
+    onChange({ tags: remaining.length > 0 ? remaining : undefined });
+  };
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={commitNotes}
+        placeholder="Notes, e.g. left shoulder leads"
+        rows={2}
+        aria-label={`Notes for ${step.name}`}
+        className="w-full bg-gray-800/60 rounded px-2 py-1 text-gray-200 outline-none focus:ring-1 focus:ring-emerald-400 resize-y"
+      />
+      <input
+        type="text"
+        value={counts}
+        onChange={(e) => setCounts(e.target.value)}
+        onBlur={commitCounts}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        placeholder="Counts, e.g. 1-&-2-3"
+        aria-label={`Counts for ${step.name}`}
+        className="w-full bg-gray-800/60 rounded px-2 py-1 font-mono text-gray-200 outline-none focus:ring-1 focus:ring-emerald-400"
+      />
+      <div className="flex flex-wrap items-center gap-1">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-sky-500/20 text-sky-200">
+            {tag}
+            <button onClick={() => removeTag(tag)} title={`Remove tag ${tag}`} className="px-1 rounded-full hover:bg-sky-500/30">×</button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={tagText}
+          list={datalistId}
+          onChange={(e) => setTagText(e.target.value)}
+          onBlur={addTags}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTags();
+            }
+          }}
+          placeholder="Add tag"
+          aria-label={`Add a tag to ${step.name}`}
+          className="w-24 bg-gray-800/60 rounded px-2 py-0.5 text-gray-200 outline-none focus:ring-1 focus:ring-emerald-400"
+        />
+        <datalist id={datalistId}>
+          {suggestedTags.filter(tag => !tags.includes(tag)).map(tag => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1 text-gray-400" role="group" aria-label="Difficulty">
+          Difficulty
+          {Array.from({ length: MAX_DIFFICULTY }, (_, i) => i + 1).map(level => (
+            <button
+              key={level}
+              onClick={() => onChange({ difficulty: step.difficulty === level ? undefined : level })}
+              title={step.difficulty === level ? 'Clear difficulty' : `Difficulty ${level} of ${MAX_DIFFICULTY}`}
+              className={`w-3 h-3 rounded-full transition-colors ${(step.difficulty ?? 0) >= level ? 'bg-rose-400' : 'bg-gray-600 hover:bg-gray-500'}`}
+            />
+          ))}
+        </div>
+        <div className="flex rounded-md overflow-hidden" role="group" aria-label="Mastery">
+          {MASTERY_LEVELS.map(level => (
+            <button
+              key={level.value}
+              onClick={() => onChange({ mastery: level.value })}
+              className={`px-2 py-0.5 transition-colors ${(step.mastery ?? 'new') === level.value ? level.className : 'bg-gray-800/60 text-gray-400 hover:bg-gray-600'}`}
+            >
+              {level.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StepDetailsEditor;
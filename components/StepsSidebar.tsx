@@ -1,27 +1,78 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Step } from './VideoPlayer';
-import { formatTime } from '../utils/formatTime';
+import { StepsDocument, ImportMode, parseStepsDocument, findNewSteps, findNewAnnotations } from '../utils/stepsFile';
+import { Annotation } from '../utils/annotations';
+import { MarkerFormat, MARKER_FORMATS, markerFormatFromName, parseMarkers } from '../utils/markerFiles';
+import { TempoMap, formatBarsBeats } from '../utils/tempo';
+import { validateRangeStart, validateRangeEnd } from '../utils/timeRange';
+import { StepFilter, StepMetadata, EMPTY_STEP_FILTER, MASTERY_LEVELS, MAX_DIFFICULTY, SUGGESTED_TAGS, allTags, isStepFilterActive, masteryLabel, matchesStepFilter, nextMastery } from '../utils/stepMetadata';
+import { StepDropTarget, groupSteps, orderSteps, sectionNames, normalizeSectionName } from '../utils/stepOrder';
+import TimeInput from './TimeInput';
+import StepDetailsEditor from './StepDetailsEditor';
 import { PlayIcon, DeleteIcon, AddIcon } from './icons';
 
 interface StepsSidebarProps {
   steps: Step[];
+  /** Current annotations, so an import can tell whether replacing would discard any. */
+  annotations: Annotation[];
   activeStepId: string | null;
+  duration: number;
+  tempo: TempoMap | null;
   onAddStep: () => void;
   onPlayStep: (step: Step) => void;
   onDeleteStep: (id: string) => void;
   onUpdateStepName: (id: string, name: string) => void;
+  onUpdateStepTimes: (id: string, start: number, end: number) => void;
   onSave: () => void;
-  onLoadSteps: (steps: Omit<Step, 'id'>[]) => void;
+  onExportMarkers: (format: MarkerFormat) => void;
+  /** Whether step names are shown over the video from a chapter track. */
+  showStepLabels: boolean;
+  onToggleStepLabels: () => void;
+  onLoadSteps: (stepsDocument: StepsDocument, mode: ImportMode) => void;
+  onMoveStep: (id: string, target: StepDropTarget) => void;
+  onSortSteps: () => void;
+  onSetStepSection: (id: string, section: string | null) => void;
+  collapsedSections: string[];
+  onToggleSection: (section: string) => void;
+  onRenameSection: (from: string, to: string) => void;
+  onPlaySection: (section: string) => void;
+  onUpdateStepDetails: (id: string, patch: StepMetadata) => void;
+  onExportStep: (step: Step) => void;
+  /** Extra panels shown below the step list. */
+  children?: React.ReactNode;
 }
 
+interface PendingImport {
+  fileName: string;
+  document: StepsDocument;
+  warnings: string[];
+  duplicates: number;
+  /** Imported annotations that don't match existing ones. */
+  newAnnotations: number;
+}
+
+const NEW_SECTION_OPTION = '__new-section__';
+
 const StepItem: React.FC<{
   step: Step;
   isActive: boolean;
+  isDragging: boolean;
+  tempo: TempoMap | null;
+  duration: number;
+  sections: string[];
   onPlay: () => void;
   onDelete: () => void;
   onUpdateName: (name: string) => void;
-}> = ({ step, isActive, onPlay, onDelete, onUpdateName }) => {
+  onUpdateTimes: (start: number, end: number) => void;
+  onSetSection: (section: string | null) => void;
+  onDragStart: (e: React.PointerEvent) => void;
+  suggestedTags: string[];
+  onUpdateDetails: (patch: StepMetadata) => void;
+  onExport: () => void;
+}> = ({ step, isActive, isDragging, tempo, duration, sections, onPlay, onDelete, onUpdateName, onUpdateTimes, onSetSection, onDragStart, suggestedTags, onUpdateDetails, onExport }) => {
   const [name, setName] = useState(step.name);
+  const [showDetails, setShowDetails] = useState(false);
+  const mastery = MASTERY_LEVELS.find(level => level.value === (step.mastery ?? 'new'));
 
   useEffect(() => {
     setName(step.name);
@@ -45,8 +96,27 @@ const StepItem: React.FC<{
     }
   }
 
+  const handleSectionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === NEW_SECTION_OPTION) {
+      const name = normalizeSectionName(prompt('Name the new section (e.g. Verse 1, Chorus):') ?? undefined);
+      if (name) onSetSection(name);
+    } else {
+      onSetSection(e.target.value || null);
+    }
+  };
+
   return (
-    <div className={`p-3 rounded-lg flex items-center gap-3 transition-colors ${isActive ? 'bg-emerald-900/50' : 'bg-gray-700/50'}`}>
+    <div
+      data-step-id={step.id}
+      className={`p-3 rounded-lg flex items-center gap-3 transition-colors ${isActive ? 'bg-emerald-900/50' : 'bg-gray-700/50'} ${isDragging ? 'opacity-50' : ''}`}
+    >
+      <div
+        onPointerDown={onDragStart}
+        title="Drag to reorder"
+        className="relative touch-none touch-target select-none cursor-grab text-gray-500 hover:text-gray-300 -mx-1 flex-shrink-0"
+      >
+        ⠿
+      </div>
       <button 
         onClick={onPlay} 
         title={`Play step: ${step.name}`}
@@ -54,7 +124,7 @@ const StepItem: React.FC<{
       >
         <PlayIcon className="w-5 h-5" />
       </button>
-      <div className="flex-grow">
+      <div className="flex-grow min-w-0">
         <input
           type="text"
           value={name}
@@ -64,9 +134,77 @@ const StepItem: React.FC<{
           className="w-full bg-transparent text-white font-semibold outline-none focus:bg-gray-600/50 rounded px-2 py-1 -ml-2"
           aria-label={`Step name for ${step.name}`}
         />
-        <div className="text-xs text-gray-400 font-mono mt-1">
-          {formatTime(step.start)} - {formatTime(step.end)}
+        <div className="text-xs text-gray-400 font-mono mt-1 flex items-center flex-wrap -ml-1">
+          <TimeInput
+            value={step.start}
+            label={`Start of ${step.name}`}
+            validate={(time) => validateRangeStart(time, step.end)}
+            onChange={(time) => onUpdateTimes(time, step.end)}
+          />
+          -
+          <TimeInput
+            value={step.end}
+            label={`End of ${step.name}`}
+            validate={(time) => validateRangeEnd(time, step.start, duration)}
+            onChange={(time) => onUpdateTimes(step.start, time)}
+            className="ml-1"
+          />
+          {tempo && (
+            <span className="text-gray-500 ml-2">
+              ({formatBarsBeats(step.start, tempo)} - {formatBarsBeats(step.end, tempo)})
+            </span>
+          )}
+          <select
+            value={normalizeSectionName(step.section) ?? ''}
+            onChange={handleSectionChange}
+            aria-label={`Section of ${step.name}`}
+            className="ml-auto max-w-[8rem] bg-transparent font-sans text-gray-400 rounded outline-none focus:bg-gray-600/50"
+          >
+            <option value="">No section</option>
+            {sections.map(section => (
+              <option key={section} value={section}>{section}</option>
+            ))}
+            <option value={NEW_SECTION_OPTION}>New section…</option>
+          </select>
         </div>
+        <div className="text-xs mt-1 flex items-center flex-wrap gap-1">
+          <button
+            onClick={() => onUpdateDetails({ mastery: nextMastery(step.mastery) })}
+            title={`Mastery: ${masteryLabel(step.mastery)} (click to change)`}
+            className={`px-2 py-0.5 rounded-full ${mastery?.className ?? ''}`}
+          >
+            {masteryLabel(step.mastery)}
+          </button>
+          {step.difficulty && (
+            <span title={`Difficulty ${step.difficulty} of ${MAX_DIFFICULTY}`} className="text-rose-400 tracking-tighter">
+              {'●'.repeat(step.difficulty)}<span className="text-gray-600">{'●'.repeat(MAX_DIFFICULTY - step.difficulty)}</span>
+            </span>
+          )}
+          {step.counts && <span className="font-mono text-gray-300">{step.counts}</span>}
+          {(step.tags ?? []).map(tag => (
+            <span key={tag} className="px-2 py-0.5 rounded-full bg-sky-500/20 text-sky-200">{tag}</span>
+          ))}
+          <button
+            onClick={onExport}
+            title={`Export ${step.name} as a clip or image`}
+            className="ml-auto px-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors"
+          >
+            Export clip
+          </button>
+          <button
+            onClick={() => setShowDetails(!showDetails)}
+            aria-expanded={showDetails}
+            className="px-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors"
+          >
+            {showDetails ? 'Hide details' : 'Details'}
+          </button>
+        </div>
+        {!showDetails && step.notes && (
+          <p className="text-xs text-gray-400 italic mt-1 truncate" title={step.notes}>{step.notes}</p>
+        )}
+        {showDetails && (
+          <StepDetailsEditor step={step} suggestedTags={suggestedTags} onChange={onUpdateDetails} />
+        )}
       </div>
       <button 
         onClick={onDelete} 
@@ -79,17 +217,156 @@ const StepItem: React.FC<{
   );
 };
 
+const SectionHeader: React.FC<{
+  section: string;
+  count: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  onRename: (name: string) => void;
+  onPlay: () => void;
+}> = ({ section, count, isCollapsed, onToggle, onRename, onPlay }) => {
+  const [name, setName] = useState(section);
+
+  useEffect(() => {
+    setName(section);
+  }, [section]);
+
+  const handleBlur = () => {
+    const next = normalizeSectionName(name);
+    if (!next) {
+      setName(section);
+    } else if (next !== section) {
+      onRename(next);
+    }
+  };
+
+  return (
+    <div data-section={section} className="flex items-center gap-2 pt-2">
+      <button
+        onClick={onToggle}
+        title={isCollapsed ? 'Expand section' : 'Collapse section'}
+        className="w-5 text-gray-400 hover:text-white transition-colors"
+      >
+        {isCollapsed ? '▸' : '▾'}
+      </button>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleBlur}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="flex-grow min-w-0 bg-transparent font-bold text-gray-200 outline-none focus:bg-gray-600/50 rounded px-1"
+        aria-label={`Section name for ${section}`}
+      />
+      <span className="text-xs text-gray-500">{count}</span>
+      <button
+        onClick={onPlay}
+        title={`Play section: ${section}`}
+        className="p-1.5 rounded-full bg-emerald-500/30 hover:bg-emerald-500 text-white transition-colors flex-shrink-0"
+      >
+        <PlayIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+const DropMarker: React.FC = () => <div className="h-0.5 rounded bg-emerald-400" />;
+
 const StepsSidebar: React.FC<StepsSidebarProps> = ({
   steps,
+  annotations,
   activeStepId,
+  duration,
+  tempo,
   onAddStep,
   onPlayStep,
   onDeleteStep,
   onUpdateStepName,
+  onUpdateStepTimes,
   onSave,
+  onExportMarkers,
+  showStepLabels,
+  onToggleStepLabels,
   onLoadSteps,
+  onMoveStep,
+  onSortSteps,
+  onSetStepSection,
+  collapsedSections,
+  onToggleSection,
+  onRenameSection,
+  onPlaySection,
+  onUpdateStepDetails,
+  onExportStep,
+  children,
 }) => {
   const loadInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [dragStepId, setDragStepId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<StepDropTarget | null>(null);
+
+  const [filter, setFilter] = useState<StepFilter>(EMPTY_STEP_FILTER);
+
+  const groups = groupSteps(steps);
+  const sections = sectionNames(steps);
+  const tags = allTags(steps);
+  const suggestedTags = Array.from(new Set([...tags, ...SUGGESTED_TAGS]));
+  const isFiltering = isStepFilterActive(filter);
+  const visibleGroups = isFiltering
+    ? groups
+        .map(group => ({ ...group, steps: group.steps.filter(step => matchesStepFilter(step, filter)) }))
+        .filter(group => group.steps.length > 0)
+    : groups;
+  const visibleCount = visibleGroups.reduce((count, group) => count + group.steps.length, 0);
+
+  // Rows and section headers carry data attributes so the pointer can be hit-tested while dragging.
+  const findDropTarget = (x: number, y: number): StepDropTarget | null => {
+    const element = document.elementFromPoint(x, y);
+    const row = element?.closest<HTMLElement>('[data-step-id]');
+    if (row) {
+      const ordered = orderSteps(steps);
+      const index = ordered.findIndex(step => step.id === row.dataset.stepId);
+      if (index === -1) return null;
+      const section = normalizeSectionName(ordered[index].section);
+      const rect = row.getBoundingClientRect();
+      if (y < rect.top + rect.height / 2) {
+        return { section, beforeStepId: ordered[index].id };
+      }
+      const next = ordered[index + 1];
+      return { section, beforeStepId: next && normalizeSectionName(next.section) === section ? next.id : null };
+    }
+    const header = element?.closest<HTMLElement>('[data-section]');
+    if (header) {
+      const section = header.dataset.section || null;
+      const group = groups.find(candidate => candidate.section === section);
+      const isCollapsed = section !== null && collapsedSections.includes(section);
+      return { section, beforeStepId: group && !isCollapsed ? group.steps[0].id : null };
+    }
+    return null;
+  };
+
+  useEffect(() => {
+    if (!dragStepId) return;
+    const endDrag = () => {
+      setDragStepId(null);
+      setDropTarget(null);
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+      setDropTarget(findDropTarget(e.clientX, e.clientY));
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      const target = findDropTarget(e.clientX, e.clientY);
+      if (target) onMoveStep(dragStepId, target);
+      endDrag();
+    };
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', endDrag);
+    return () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', endDrag);
+    };
+  }, [dragStepId, steps, collapsedSections, onMoveStep]);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -101,12 +378,26 @@ const StepsSidebar: React.FC<StepsSidebarProps> = ({
       try {
         const text = e.target?.result;
         if (typeof text === 'string') {
-          const data = JSON.parse(text);
-          // Basic validation
-          if (Array.isArray(data) && data.every(item => 'name' in item && 'start' in item && 'end' in item)) {
-            onLoadSteps(data);
+          const markerFormat = markerFormatFromName(file.name);
+          const result = markerFormat ? parseMarkers(text, markerFormat, duration) : parseStepsDocument(JSON.parse(text), duration);
+          if (!result.document) {
+            const shown = result.errors.slice(0, 5);
+            const more = result.errors.length - shown.length;
+            alert(`Invalid steps file:\n\n${shown.join('\n')}${more > 0 ? `\n…and ${more} more.` : ''}`);
+          } else if (result.document.steps.length === 0 && (result.document.annotations ?? []).length === 0) {
+            alert(result.warnings.length > 0
+              ? `None of the steps fit this video:\n\n${result.warnings.join('\n')}`
+              : 'The steps file does not contain any steps.');
+          } else if (steps.length === 0 && annotations.length === 0 && result.warnings.length === 0) {
+            onLoadSteps(result.document, 'replace');
           } else {
-            alert('Invalid steps file format.');
+            setPendingImport({
+              fileName: file.name,
+              document: result.document,
+              warnings: result.warnings,
+              duplicates: findNewSteps(steps, result.document.steps).duplicates,
+              newAnnotations: findNewAnnotations(annotations, result.document.annotations ?? []).length,
+            });
           }
         }
       } catch (error) {
@@ -121,6 +412,13 @@ const StepsSidebar: React.FC<StepsSidebarProps> = ({
     };
     reader.readAsText(file);
   };
+
+  const handleConfirmImport = (mode: ImportMode) => {
+    if (pendingImport) {
+      onLoadSteps(pendingImport.document, mode);
+    }
+    setPendingImport(null);
+  };
   
   return (
     <div className="w-full lg:w-80 xl:w-96 flex-shrink-0 bg-gray-800 rounded-lg shadow-2xl p-4 flex flex-col">
@@ -134,7 +432,7 @@ const StepsSidebar: React.FC<StepsSidebarProps> = ({
         </button>
         <button 
           onClick={() => loadInputRef.current?.click()}
-          title="Load steps from JSON"
+          title="Load steps from JSON, WebVTT chapters, SRT or CSV"
           className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
         >
           Load
@@ -142,7 +440,7 @@ const StepsSidebar: React.FC<StepsSidebarProps> = ({
         <input
           type="file"
           ref={loadInputRef}
-          accept=".json"
+          accept={['.json', ...MARKER_FORMATS.map(format => `.${format.extension}`)].join(',')}
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -153,26 +451,179 @@ const StepsSidebar: React.FC<StepsSidebarProps> = ({
         >
           Save
         </button>
+        <button
+          onClick={onSortSteps}
+          disabled={steps.length < 2}
+          title="Sort steps by start time"
+          className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+        >
+          Sort
+        </button>
+      </div>
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        <select
+          value=""
+          onChange={(e) => onExportMarkers(e.target.value as MarkerFormat)}
+          disabled={steps.length === 0}
+          title="Export steps as chapters or markers for other editing tools"
+          className="flex-grow min-w-0 bg-gray-700 rounded-md px-2 py-1 text-gray-300 outline-none focus:ring-1 focus:ring-emerald-400 disabled:opacity-50"
+        >
+          <option value="">Export as…</option>
+          {MARKER_FORMATS.map(format => (
+            <option key={format.value} value={format.value}>{format.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 px-2 py-1 rounded-md cursor-pointer" title="Show the name of the step being played over the video">
+          <input
+            type="checkbox"
+            checked={showStepLabels}
+            onChange={onToggleStepLabels}
+            className="accent-emerald-500"
+          />
+          Labels on video
+        </label>
       </div>
+      {pendingImport && (
+        <div className="mb-4 p-3 rounded-lg bg-gray-700 text-sm space-y-2">
+          <p>
+            Import {pendingImport.document.steps.length} steps
+            {(pendingImport.document.annotations ?? []).length > 0 && ` and ${pendingImport.document.annotations.length} annotations`}
+            {' '}from <span className="font-semibold">{pendingImport.fileName}</span>?
+          </p>
+          {pendingImport.warnings.map(warning => (
+            <p key={warning} className="text-amber-300">{warning}</p>
+          ))}
+          {pendingImport.duplicates > 0 && (
+            <p className="text-gray-400">
+              {pendingImport.duplicates} of them match existing steps and will be skipped when merging.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleConfirmImport('replace')}
+              title={annotations.length > 0 ? 'Discard current steps and annotations and use the imported ones' : 'Discard current steps and use the imported ones'}
+              className="px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-600 text-white transition-colors"
+            >
+              Replace
+            </button>
+            <button
+              onClick={() => handleConfirmImport('merge')}
+              title="Add imported steps after the current ones"
+              disabled={pendingImport.duplicates === pendingImport.document.steps.length && pendingImport.newAnnotations === 0}
+              className="px-3 py-1 rounded-md bg-gray-600 hover:bg-gray-500 disabled:opacity-50 transition-colors"
+            >
+              Merge
+            </button>
+            <button
+              onClick={() => setPendingImport(null)}
+              className="px-3 py-1 rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {steps.length > 0 && (
+        <div className="mb-2 space-y-1 text-sm">
+          <div className="flex items-center gap-2">
+            <input
+              type="search"
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+              placeholder="Search names, notes, counts, tags…"
+              aria-label="Search steps"
+              className="flex-grow min-w-0 bg-gray-700 rounded-md px-2 py-1 outline-none focus:ring-1 focus:ring-emerald-400"
+            />
+            <select
+              value={filter.mastery ?? ''}
+              onChange={(e) => setFilter({ ...filter, mastery: MASTERY_LEVELS.find(level => level.value === e.target.value)?.value ?? null })}
+              aria-label="Filter by mastery"
+              className="bg-gray-700 rounded-md px-1 py-1 outline-none focus:ring-1 focus:ring-emerald-400"
+            >
+              <option value="">Any status</option>
+              {MASTERY_LEVELS.map(level => (
+                <option key={level.value} value={level.value}>{level.label}</option>
+              ))}
+            </select>
+            {tags.length > 0 && (
+              <select
+                value={filter.tag ?? ''}
+                onChange={(e) => setFilter({ ...filter, tag: e.target.value || null })}
+                aria-label="Filter by tag"
+                className="max-w-[7rem] bg-gray-700 rounded-md px-1 py-1 outline-none focus:ring-1 focus:ring-emerald-400"
+              >
+                <option value="">Any tag</option>
+                {tags.map(tag => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {isFiltering && (
+            <p className="text-xs text-gray-400">
+              Showing {visibleCount} of {steps.length} steps ·{' '}
+              <button onClick={() => setFilter(EMPTY_STEP_FILTER)} className="text-emerald-400 hover:underline">Clear</button>
+            </p>
+          )}
+        </div>
+      )}
       <div className="flex-grow overflow-y-auto space-y-2 pr-1 -mr-2">
         {steps.length === 0 ? (
            <div className="text-center text-gray-500 pt-10">
             <p>No practice steps yet.</p>
             <p className="text-sm mt-1">Define a loop with "Set Start" & "Set End", then click "Add Step".</p>
           </div>
+        ) : visibleCount === 0 ? (
+          <p className="text-center text-gray-500 pt-10">No steps match the filter.</p>
         ) : (
-          steps.map(step => (
-            <StepItem
-              key={step.id}
-              step={step}
-              isActive={step.id === activeStepId}
-              onPlay={() => onPlayStep(step)}
-              onDelete={() => onDeleteStep(step.id)}
-              onUpdateName={(name) => onUpdateStepName(step.id, name)}
-            />
-          ))
+          visibleGroups.map(group => {
+            const isCollapsed = !isFiltering && group.section !== null && collapsedSections.includes(group.section);
+            return (
+              <div key={group.section ?? ''} className="space-y-2">
+                {sections.length > 0 && (group.section === null ? (
+                  <div data-section="" className="pt-2 px-1 font-bold text-gray-500">Unsectioned</div>
+                ) : (
+                  <SectionHeader
+                    section={group.section}
+                    count={group.steps.length}
+                    isCollapsed={isCollapsed}
+                    onToggle={() => onToggleSection(group.section)}
+                    onRename={(name) => onRenameSection(group.section, name)}
+                    onPlay={() => onPlaySection(group.section)}
+                  />
+                ))}
+                {!isCollapsed && group.steps.map(step => (
+                  <React.Fragment key={step.id}>
+                    {dropTarget?.beforeStepId === step.id && <DropMarker />}
+                    <StepItem
+                      step={step}
+                      isActive={step.id === activeStepId}
+                      isDragging={step.id === dragStepId}
+                      tempo={tempo}
+                      duration={duration}
+                      sections={sections}
+                      onPlay={() => onPlayStep(step)}
+                      onDelete={() => onDeleteStep(step.id)}
+                      onUpdateName={(name) => onUpdateStepName(step.id, name)}
+                      onUpdateTimes={(start, end) => onUpdateStepTimes(step.id, start, end)}
+                      onSetSection={(section) => onSetStepSection(step.id, section)}
+                      suggestedTags={suggestedTags}
+                      onUpdateDetails={(patch) => onUpdateStepDetails(step.id, patch)}
+                      onExport={() => onExportStep(step)}
+                      onDragStart={(e) => {
+                        e.preventDefault();
+                        setDragStepId(step.id);
+                      }}
+                    />
+                  </React.Fragment>
+                ))}
+                {dragStepId && dropTarget?.beforeStepId === null && dropTarget.section === group.section && <DropMarker />}
+              </div>
+            );
+          })
         )}
       </div>
+      {children}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import React from 'react';
+import { DeleteIcon, PlayIcon } from './icons';
+import { PracticeTake } from '../utils/takeStore';
+import { formatTime } from '../utils/formatTime';
+import { formatBytes } from '../utils/formatBytes';
+
+interface TakesPanelProps {
+  takes: PracticeTake[];
+  isRecording: boolean;
+  /** Repetition currently being recorded, or 0 between reps. */
+  recordingRep: number;
+  storage: { usage: number; quota: number } | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onReplay: (take: PracticeTake) => void;
+  onDownload: (take: PracticeTake) => void;
+  onDelete: (take: PracticeTake) => void;
+}
+
+const TakesPanel: React.FC<TakesPanelProps> = ({
+  takes,
+  isRecording,
+  recordingRep,
+  storage,
+  onStartRecording,
+  onStopRecording,
+  onReplay,
+  onDownload,
+  onDelete,
+}) => {
+  const takesSize = takes.reduce((total, take) => total + take.size, 0);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 mr-1">TAKES</span>
+        {isRecording ? (
+          <>
+            <button onClick={onStopRecording} className="px-3 py-1 rounded-md bg-red-500 hover:bg-red-600 text-white transition-colors">
+              Stop Recording
+            </button>
+            <span className="flex items-center gap-1 font-mono text-red-300">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              {recordingRep > 0 ? `REC rep ${recordingRep}` : 'Waiting for playback'}
+            </span>
+          </>
+        ) : (
+          <button
+            onClick={onStartRecording}
+            title="Record yourself from the camera; each loop repetition is saved as its own take"
+            className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            Record
+          </button>
+        )}
+        <span className="ml-auto text-xs text-gray-400" title="Space used by takes, and by this app in browser storage">
+          {takes.length} {takes.length === 1 ? 'take' : 'takes'} · {formatBytes(takesSize)}
+          {storage && storage.quota > 0 && ` · storage ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)}`}
+        </span>
+      </div>
+      {storage && storage.quota > 0 && (
+        <div className="h-1 rounded bg-gray-700 overflow-hidden" aria-hidden="true">
+          <div className="h-full bg-sky-500" style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }} />
+        </div>
+      )}
+      {takes.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto space-y-1 pr-1">
+          {takes.map(take => (
+            <li key={take.id} className="flex items-center gap-2 px-2 py-1 rounded-md bg-gray-700/40">
+              <button
+                onClick={() => onReplay(take)}
+                title="Replay next to the reference"
+                className="p-1 rounded-full bg-emerald-500/80 hover:bg-emerald-500 text-white transition-colors flex-shrink-0"
+              >
+                <PlayIcon className="w-4 h-4" />
+              </button>
+              <span className="flex-grow min-w-0 truncate">
+                {take.stepName} · rep {take.rep} · {take.playbackRate}x
+              </span>
+              <span className="text-xs font-mono text-gray-400" title={new Date(take.recordedAt).toLocaleString()}>
+                {formatTime(take.duration)} · {formatBytes(take.size)}
+              </span>
+              <button
+                onClick={() => onDownload(take)}
+                title="Download"
+                className="px-2 text-xs rounded text-gray-300 hover:bg-gray-600 transition-colors"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => onDelete(take)}
+                title="Delete take"
+                className="p-1 rounded-full text-gray-400 hover:bg-red-500/30 hover:text-red-300 transition-colors"
+              >
+                <DeleteIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TakesPanel;
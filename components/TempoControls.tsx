@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { TempoMap, MIN_BPM, MAX_BPM } from '../utils/tempo';
+
+interface TempoControlsProps {
+  tempo: TempoMap | null;
+  tapCount: number;
+  isDetecting: boolean;
+  snapEnabled: boolean;
+  onTap: () => void;
+  onDetect: () => void;
+  onSetDownbeat: () => void;
+  onChange: (tempo: TempoMap | null) => void;
+  onSnapChange: (enabled: boolean) => void;
+}
+
+const BEATS_PER_BAR_OPTIONS = [2, 3, 4, 6, 8];
+const DEFAULT_BPM = 120;
+
+const TempoControls: React.FC<TempoControlsProps> = ({
+  tempo,
+  tapCount,
+  isDetecting,
+  snapEnabled,
+  onTap,
+  onDetect,
+  onSetDownbeat,
+  onChange,
+  onSnapChange,
+}) => {
+  const [bpmText, setBpmText] = useState(tempo ? String(tempo.bpm) : '');
+
+  useEffect(() => {
+    setBpmText(tempo ? String(tempo.bpm) : '');
+  }, [tempo?.bpm]);
+
+  const commitBpm = () => {
+    const bpm = parseFloat(bpmText);
+    if (!Number.isFinite(bpm) || bpm < MIN_BPM || bpm > MAX_BPM) {
+      setBpmText(tempo ? String(tempo.bpm) : '');
+      return;
+    }
+    onChange({
+      bpm,
+      offset: tempo?.offset ?? 0,
+      beatsPerBar: tempo?.beatsPerBar ?? 4,
+      source: 'manual',
+    });
+  };
+
+  const handleBeatsPerBarChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const beatsPerBar = Number(e.target.value);
+    onChange({
+      bpm: tempo?.bpm ?? DEFAULT_BPM,
+      offset: tempo?.offset ?? 0,
+      beatsPerBar,
+      source: tempo?.source ?? 'manual',
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-xs font-bold text-gray-400 mr-1">TEMPO</span>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={bpmText}
+        placeholder="BPM"
+        onChange={(e) => setBpmText(e.target.value)}
+        onBlur={commitBpm}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-16 bg-gray-700 rounded-md px-2 py-1 font-mono text-white outline-none focus:ring-1 focus:ring-emerald-400"
+        aria-label="Beats per minute"
+      />
+      <button
+        onClick={onTap}
+        title="Tap along on each beat while the video plays; the first tap marks the 1 (T)"
+        className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+      >
+        Tap{tapCount > 0 ? ` (${tapCount})` : ''}
+      </button>
+      <button
+        onClick={onDetect}
+        disabled={isDetecting}
+        title="Estimate tempo and downbeat from the audio track"
+        className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+      >
+        {isDetecting ? 'Detecting…' : 'Detect'}
+      </button>
+      <button
+        onClick={onSetDownbeat}
+        disabled={!tempo}
+        title="Make the current position count 1 of a bar"
+        className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+      >
+        Set 1 Here
+      </button>
+      <select
+        value={tempo?.beatsPerBar ?? 4}
+        onChange={handleBeatsPerBarChange}
+        title="Beats per bar"
+        className="bg-gray-700 rounded-md px-2 py-1 outline-none"
+      >
+        {BEATS_PER_BAR_OPTIONS.map(count => (
+          <option key={count} value={count}>{count}/bar</option>
+        ))}
+      </select>
+      <label className={`flex items-center gap-1 px-2 py-1 rounded-md ${tempo ? 'cursor-pointer' : 'opacity-50'}`}>
+        <input
+          type="checkbox"
+          checked={snapEnabled}
+          disabled={!tempo}
+          onChange={(e) => onSnapChange(e.target.checked)}
+          className="accent-emerald-500"
+        />
+        Snap to beat
+      </label>
+      {tempo && (
+        <button
+          onClick={() => onChange(null)}
+          title="Remove the beat grid"
+          className="px-2 py-1 rounded-md text-gray-400 hover:bg-gray-600 transition-colors"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TempoControls;
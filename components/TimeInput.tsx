@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { formatTime, parseTime } from '../utils/formatTime';
+
+interface TimeInputProps {
+  value: number;
+  /** Returns an error message for an unacceptable time, or null. */
+  validate: (time: number) => string | null;
+  onChange: (time: number) => void;
+  label: string;
+  className?: string;
+}
+
+/** Editable time in `mm:ss.cc`; reverts on invalid input and shows why in its tooltip. */
+const TimeInput: React.FC<TimeInputProps> = ({ value, validate, onChange, label, className = '' }) => {
+  const [text, setText] = useState(formatTime(value));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(formatTime(value));
+  }, [value]);
+
+  const commit = () => {
+    const time = parseTime(text);
+    const problem = time === null ? 'Use mm:ss.cc, hh:mm:ss or seconds' : validate(time);
+    if (problem) {
+      setError(problem);
+      setText(formatTime(value));
+      return;
+    }
+    setError(null);
+    if (time !== value) {
+      onChange(time);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => { setText(e.target.value); setError(null); }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setText(formatTime(value));
+          setError(null);
+          e.currentTarget.blur();
+        }
+      }}
+      title={error ?? label}
+      aria-label={label}
+      aria-invalid={error !== null}
+      className={`w-20 bg-transparent font-mono rounded px-1 outline-none focus:bg-gray-600/50 ${error ? 'ring-1 ring-red-400' : ''} ${className}`}
+    />
+  );
+};
+
+export default TimeInput;
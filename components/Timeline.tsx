@@ -1,5 +1,7 @@
 
 import React, { useRef, useCallback, useEffect, useState } from 'react';
+import { BeatMarker } from '../utils/tempo';
+import { PracticeHeatSpan } from '../utils/practiceStats';
 
 interface TimelineProps {
   currentTime: number;
@@ -10,8 +12,14 @@ interface TimelineProps {
   setLoopStart: (time: number) => void;
   setLoopEnd: (time: number) => void;
   isLooping: boolean;
+  beats: BeatMarker[];
+  /** Practice per step, drawn as a strip under the bar when shown. */
+  heat?: PracticeHeatSpan[];
 }
 
+// Past this many beats individual ticks blur together, so only downbeats are drawn.
+const MAX_BEAT_TICKS = 400;
+
 const Timeline: React.FC<TimelineProps> = ({ 
   currentTime, 
   duration, 
@@ -20,14 +28,16 @@ const Timeline: React.FC<TimelineProps> = ({
   loopEnd,
   setLoopStart,
   setLoopEnd,
-  isLooping
+  isLooping,
+  beats,
+  heat
 }) => {
   const timelineRef = useRef<HTMLDivElement>(null);
   const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
   const [isDraggingStart, setIsDraggingStart] = useState(false);
   const [isDraggingEnd, setIsDraggingEnd] = useState(false);
 
-  const getSeekTime = (e: MouseEvent | React.MouseEvent) => {
+  const getSeekTime = (e: PointerEvent | React.PointerEvent) => {
     if (!timelineRef.current || duration === 0) return 0;
     const rect = timelineRef.current.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -36,12 +46,20 @@ const Timeline: React.FC<TimelineProps> = ({
     return percentage * duration;
   };
   
-  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  // Pressing anywhere on the bar seeks and keeps scrubbing, so a finger can drag from any point.
+  const handleTimelinePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
     const time = getSeekTime(e);
     onSeek(time);
+    setIsDraggingPlayhead(true);
+  };
+
+  const startHandleDrag = (e: React.PointerEvent<HTMLDivElement>, setDragging: (dragging: boolean) => void) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setDragging(true);
   };
   
-  const handleMouseMove = useCallback((e: MouseEvent) => {
+  const handlePointerMove = useCallback((e: PointerEvent) => {
     if (isDraggingPlayhead) {
       const time = getSeekTime(e);
       onSeek(time);
@@ -54,7 +72,7 @@ const Timeline: React.FC<TimelineProps> = ({
     }
   }, [isDraggingPlayhead, isDraggingStart, isDraggingEnd, duration, loopStart, loopEnd, onSeek, setLoopStart, setLoopEnd]);
 
-  const handleMouseUp = useCallback(() => {
+  const handlePointerUp = useCallback(() => {
     setIsDraggingPlayhead(false);
     setIsDraggingStart(false);
     setIsDraggingEnd(false);
@@ -62,26 +80,52 @@ const Timeline: React.FC<TimelineProps> = ({
 
   useEffect(() => {
     if (isDraggingPlayhead || isDraggingStart || isDraggingEnd) {
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
+      document.addEventListener('pointermove', handlePointerMove);
+      document.addEventListener('pointerup', handlePointerUp);
+      document.addEventListener('pointercancel', handlePointerUp);
     }
     return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
     };
-  }, [isDraggingPlayhead, isDraggingStart, isDraggingEnd, handleMouseMove, handleMouseUp]);
+  }, [isDraggingPlayhead, isDraggingStart, isDraggingEnd, handlePointerMove, handlePointerUp]);
   
   const progressPercentage = duration > 0 ? (currentTime / duration) * 100 : 0;
   const loopStartPercentage = duration > 0 ? (loopStart / duration) * 100 : 0;
   const loopEndPercentage = duration > 0 ? (loopEnd / duration) * 100 : 0;
+  const visibleBeats = beats.length > MAX_BEAT_TICKS ? beats.filter(beat => beat.isDownbeat) : beats;
 
   return (
     <div 
       ref={timelineRef}
-      className="relative w-full h-2 bg-gray-600 rounded-full cursor-pointer group"
+      className="relative w-full h-2 bg-gray-600 rounded-full cursor-pointer group touch-none touch-target"
       style={{ height: '8px' }}
-      onClick={handleTimelineClick}
+      onPointerDown={handleTimelinePointerDown}
     >
+      {/* Beat Grid */}
+      {duration > 0 && visibleBeats.map(beat => (
+        <div
+          key={beat.time}
+          className={`absolute w-px pointer-events-none ${beat.isDownbeat ? '-top-1 h-4 bg-gray-300/70' : 'top-0 h-full bg-gray-400/40'}`}
+          style={{ left: `${(beat.time / duration) * 100}%` }}
+        />
+      ))}
+
+      {/* Practice Heatmap: red for the least practised steps through to green for the most */}
+      {duration > 0 && heat?.map((span, index) => (
+        <div
+          key={index}
+          title={span.label}
+          className="absolute top-full mt-1.5 h-1.5 rounded-sm opacity-80"
+          style={{
+            left: `${(span.start / duration) * 100}%`,
+            width: `${((span.end - span.start) / duration) * 100}%`,
+            backgroundColor: `hsl(${Math.round(span.level * 140)}, 70%, 50%)`,
+          }}
+        />
+      ))}
+
       {/* Loop Region */}
       {isLooping && (
         <div 
@@ -101,23 +145,23 @@ const Timeline: React.FC<TimelineProps> = ({
       
       {/* Playhead */}
       <div
-        className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-emerald-400 rounded-full border-2 border-gray-800"
+        className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-emerald-400 rounded-full border-2 border-gray-800 touch-target"
         style={{ left: `${progressPercentage}%` }}
-        onMouseDown={(e) => { e.stopPropagation(); setIsDraggingPlayhead(true); }}
+        onPointerDown={(e) => startHandleDrag(e, setIsDraggingPlayhead)}
       />
       
       {/* Loop Start Handle */}
       <div
-        className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-5 bg-green-400 rounded-sm cursor-ew-resize opacity-0 group-hover:opacity-100 transition-opacity"
+        className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-5 bg-green-400 rounded-sm cursor-ew-resize opacity-0 group-hover:opacity-100 hover-reveal transition-opacity touch-target"
         style={{ left: `${loopStartPercentage}%` }}
-        onMouseDown={(e) => { e.stopPropagation(); setIsDraggingStart(true); }}
+        onPointerDown={(e) => startHandleDrag(e, setIsDraggingStart)}
       />
       
       {/* Loop End Handle */}
       <div
-        className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-5 bg-red-400 rounded-sm cursor-ew-resize opacity-0 group-hover:opacity-100 transition-opacity"
+        className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-5 bg-red-400 rounded-sm cursor-ew-resize opacity-0 group-hover:opacity-100 hover-reveal transition-opacity touch-target"
         style={{ left: `${loopEndPercentage}%` }}
-        onMouseDown={(e) => { e.stopPropagation(); setIsDraggingEnd(true); }}
+        onPointerDown={(e) => startHandleDrag(e, setIsDraggingEnd)}
       />
     </div>
   );
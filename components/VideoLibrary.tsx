@@ -0,0 +1,56 @@
+import React from 'react';
+import { LibraryVideo } from '../utils/videoLibrary';
+import { AddIcon } from './icons';
+
+interface VideoLibraryProps {
+  videos: LibraryVideo[];
+  activeVideoId: string | null;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onAdd: () => void;
+}
+
+/** Tabs for the videos open in this tab, so several pieces can be practised side by side. */
+const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, activeVideoId, onSelect, onClose, onAdd }) => {
+  if (videos.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 text-sm" role="tablist" aria-label="Open videos">
+      {videos.map(video => {
+        const isActive = video.id === activeVideoId;
+        return (
+          <div
+            key={video.id}
+            className={`flex items-center max-w-xs rounded-md transition-colors ${isActive ? 'bg-emerald-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            <button
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => onSelect(video.id)}
+              title={video.name}
+              className="min-w-0 truncate pl-3 pr-1 py-1"
+            >
+              {video.name}
+            </button>
+            <button
+              onClick={() => onClose(video.id)}
+              title={`Close ${video.name}`}
+              className="px-2 py-1 rounded-r-md hover:bg-black/20"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={onAdd}
+        title="Open another video"
+        className="flex items-center gap-1 px-3 py-1 rounded-md text-gray-300 hover:bg-gray-700 transition-colors"
+      >
+        <AddIcon className="w-4 h-4" /> Add
+      </button>
+    </div>
+  );
+};
+
+export default VideoLibrary;
@@ -1,36 +1,197 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import Timeline from './Timeline';
 import StepsSidebar from './StepsSidebar';
-import { PlayIcon, PauseIcon, LoopIcon, ResetIcon, SetStartIcon, SetEndIcon, UploadIcon } from './icons';
+import TempoControls from './TempoControls';
+import CountInControls, { CountInSettings } from './CountInControls';
+import SpeedTrainer from './SpeedTrainer';
+import RateInput from './RateInput';
+import AudioControls, { AudioSettings } from './AudioControls';
+import LoopBoundsEditor from './LoopBoundsEditor';
+import WaveformTimeline from './WaveformTimeline';
+import { PlayIcon, PauseIcon, LoopIcon, ResetIcon, SetStartIcon, SetEndIcon, UploadIcon, MirrorIcon, FullscreenIcon, ExitFullscreenIcon, CameraIcon, FrameBackIcon, FrameForwardIcon, KeyboardIcon, UndoIcon, RedoIcon, ChartIcon, ExportIcon } from './icons';
+import ShortcutsOverlay from './ShortcutsOverlay';
+import PlaylistPanel from './PlaylistPanel';
+import AnnotationOverlay from './AnnotationOverlay';
+import AnnotationsPanel from './AnnotationsPanel';
+import ComparisonView, { ComparisonSource } from './ComparisonView';
+import ComparisonControls from './ComparisonControls';
+import TakesPanel from './TakesPanel';
+import ClipExportDialog from './ClipExportDialog';
+import ActiveStepLink from './ActiveStepLink';
+import PracticeDashboard from './PracticeDashboard';
+import ReviewQueuePanel from './ReviewQueuePanel';
+import SharePackageDialog from './SharePackageDialog';
 import { formatTime } from '../utils/formatTime';
+import { PracticeSession, saveSession } from '../utils/sessionStore';
+import { StepsDocument, ImportMode, createStepsDocument, findNewSteps, findNewAnnotations } from '../utils/stepsFile';
+import { MarkerFormat, MARKER_FORMATS, stepsToMarkers } from '../utils/markerFiles';
+import { Annotation, AnnotationKind, AnnotationPoint, ANNOTATION_COLORS, DEFAULT_ANNOTATION_SECONDS, createAnnotation } from '../utils/annotations';
+import { captureFrame } from '../utils/frameSnapshot';
+import { fileBaseName, downloadBlob } from '../utils/download';
+import { NO_PICTURE_MESSAGE, describeMediaError } from '../utils/videoLibrary';
+import { PlaybackStatus, PlaybackEvent, PLAYBACK_EVENTS, nextPlaybackStatus, isPlaybackActive, playMedia } from '../utils/playbackStatus';
+import { PracticeTake, saveTake, deleteTake, listTakes, estimateStorage } from '../utils/takeStore';
+import { TakeRecorder, supportsTakeRecording, createTakeRecorder, recordingExtension } from '../utils/takeRecorder';
+import { TempoMap, beatGrid, snapToBeat, formatBarsBeats, tempoFromTaps, continuesTapSequence, nextBeatTime, isDownbeatAt, countInLabels } from '../utils/tempo';
+import { decodeAudio, detectTempo, computePeaks } from '../utils/audioAnalysis';
+import { Thumbnail, thumbnailTimes, generateThumbnails } from '../utils/thumbnails';
+import { getAudioContext, scheduleClick, cancelClicks } from '../utils/clickSynth';
+import { supportsNativePitchPreservation, setNativePreservesPitch, getMediaAudioGraph, hasMediaAudioGraph, resumeMediaAudio } from '../utils/audioGraph';
+import { DEFAULT_FRAME_RATE, watchFrameRate, frameStepTime } from '../utils/frameRate';
+import { Keymap, ShortcutAction, SHORTCUTS, loadKeymap, saveKeymap, comboFromEvent, isModifierKey, findShortcutAction, formatCombo } from '../utils/shortcuts';
+import { Mastery, StepMetadata } from '../utils/stepMetadata';
+import { StepDropTarget, moveStep, orderSteps, renumberSteps, sortStepsByStart, renameSection, sectionRange } from '../utils/stepOrder';
+import { PlaylistItem, PlaylistRun, playlistItemRange, wholePieceItems, removeStepFromPlaylist, startPlaylistRun, advancePlaylistRun } from '../utils/playlist';
+import { EditHistory, emptyHistory, recordEdit, undoEdit, redoEdit, undoLabel, redoLabel } from '../utils/editHistory';
+import { PracticeStats, EMPTY_PRACTICE_STATS, localDateKey, addPracticeTime, addRepetition, recordMasteryChange, practiceHeat, statsToCsv, stepTotals } from '../utils/practiceStats';
+import { ReviewRating, ReviewRun, ReviewSchedule, rescheduleStep, buildReviewQueue, nextDueDate, startReviewRun, advanceReviewRun } from '../utils/reviewSchedule';
+import { SpeedTrainerSettings, SpeedTrainerState, DEFAULT_TRAINER_SETTINGS, startTrainer, advanceTrainer, confirmTrainerLevel } from '../utils/speedTrainer';
 
 export interface Step {
   id: string;
   name: string;
   start: number;
   end: number;
+  mirrored?: boolean;
+  preservePitch?: boolean;
+  /** Name of the section the step is grouped under. */
+  section?: string;
+  notes?: string;
+  /** Count notation, e.g. "1-&-2-3". */
+  counts?: string;
+  tags?: string[];
+  /** 1 (easy) to 5 (hard). */
+  difficulty?: number;
+  mastery?: Mastery;
+}
+
+/** What undo and redo restore. */
+interface EditSnapshot {
+  steps: Step[];
+  playlist: PlaylistItem[];
+  activeStepId: string | null;
+  isStepDetached: boolean;
+  loopStart: number;
+  loopEnd: number;
 }
 
 interface VideoPlayerProps {
   videoUrl: string;
   videoName: string;
+  videoSize: number;
+  fingerprint: string | null;
+  initialSession: PracticeSession | null;
   onNewVideo: () => void;
 }
 
 const SPEED_PRESETS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 1, muted: false, slowBoost: 1 };
+const DEFAULT_COUNT_IN: CountInSettings = { enabled: false, beats: 4, audible: true };
+const DEFAULT_COUNT_IN_BPM = 120;
+// Clicks are scheduled slightly ahead on the audio clock so timer jitter can't be heard.
+const CLICK_LEAD_SECONDS = 0.05;
+const METRONOME_LOOKAHEAD_SECONDS = 0.1;
+const METRONOME_TICK_MS = 25;
+const WAVEFORM_PEAKS_PER_SECOND = 200;
+// Decoding holds the whole file and its PCM in memory, so bigger videos (or URLs of unknown size) wait to be asked.
+const WAVEFORM_AUTO_MAX_BYTES = 200 * 1024 * 1024;
+const THUMBNAIL_HEIGHT = 36;
+// Takes shorter than this are a seek or pause right after starting, not a repetition.
+const MIN_TAKE_SECONDS = 0.5;
+const BUFFERING_NOTICE_DELAY_MS = 400;
+// Practice time is added up in chunks this long, so a crash loses at most one.
+const PRACTICE_FLUSH_MS = 5000;
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVideo }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, videoSize, fingerprint, initialSession, onNewVideo }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [playbackStatus, setPlaybackStatus] = useState<PlaybackStatus>('loading');
+  const [playbackError, setPlaybackError] = useState<{ message: string; canRetry: boolean } | null>(null);
+  const [showBuffering, setShowBuffering] = useState(false);
+  const resumeAfterReloadRef = useRef<{ time: number; rate: number } | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [isLooping, setIsLooping] = useState(false);
   const [loopStart, setLoopStart] = useState(0);
   const [loopEnd, setLoopEnd] = useState(0);
+  const [isMirrored, setIsMirrored] = useState(initialSession?.isMirrored ?? false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [tempo, setTempo] = useState<TempoMap | null>(initialSession?.tempo ?? null);
+  const [snapToBeats, setSnapToBeats] = useState(initialSession?.snapToBeats ?? false);
+  const [isDetectingTempo, setIsDetectingTempo] = useState(false);
+  const [tapCount, setTapCount] = useState(0);
+  const tapTimesRef = useRef<number[]>([]);
+  const [countIn, setCountIn] = useState<CountInSettings>(initialSession?.countIn ?? DEFAULT_COUNT_IN);
+  const [metronomeEnabled, setMetronomeEnabled] = useState(initialSession?.metronomeEnabled ?? false);
+  const [countInLabel, setCountInLabel] = useState<string | null>(null);
+  // Count-ins and rests hold the video paused while the player is still, in intent, playing.
+  const [isHolding, setIsHolding] = useState(false);
+  const isPlaying = isHolding || isPlaybackActive(playbackStatus);
+  const countInTimersRef = useRef<number[]>([]);
+  const countInClicksRef = useRef<OscillatorNode[]>([]);
+  const isCountingInRef = useRef(false);
+  const [trainerSettings, setTrainerSettings] = useState<SpeedTrainerSettings>(initialSession?.trainerSettings ?? DEFAULT_TRAINER_SETTINGS);
+  const [trainerState, setTrainerState] = useState<SpeedTrainerState | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(initialSession?.audioSettings ?? DEFAULT_AUDIO_SETTINGS);
+  const [preservePitch, setPreservePitch] = useState(initialSession?.preservePitch ?? true);
+  const [frameRate, setFrameRate] = useState(DEFAULT_FRAME_RATE);
+  const frameRateRef = useRef(DEFAULT_FRAME_RATE);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [isWaveformRequested, setIsWaveformRequested] = useState(false);
+  const [thumbnails, setThumbnails] = useState<Thumbnail[]>([]);
+  const audioBufferRef = useRef<Promise<AudioBuffer> | null>(null);
   
-  const [steps, setSteps] = useState<Step[]>([]);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [exportingStep, setExportingStep] = useState<Step | null>(null);
+  const [showSharePackage, setShowSharePackage] = useState(false);
+  const [steps, setSteps] = useState<Step[]>(initialSession?.steps ?? []);
   const [activeStepId, setActiveStepId] = useState<string | null>(null);
+  const [isStepDetached, setIsStepDetached] = useState(false);
+  const [history, setHistory] = useState<EditHistory<EditSnapshot>>(emptyHistory);
+  const [collapsedSections, setCollapsedSections] = useState<string[]>(initialSession?.collapsedSections ?? []);
+  const [annotations, setAnnotations] = useState<Annotation[]>(initialSession?.annotations ?? []);
+  const [showStepLabels, setShowStepLabels] = useState(initialSession?.showStepLabels ?? false);
+  const [stepLabel, setStepLabel] = useState<string | null>(null);
+  const chapterTrackRef = useRef<TextTrack | null>(null);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationKind | null>(null);
+  const [annotationColor, setAnnotationColor] = useState(ANNOTATION_COLORS[0]);
+  const [comparison, setComparison] = useState<ComparisonSource | null>(null);
+  const [comparisonOffset, setComparisonOffset] = useState(0);
+  const [comparisonMirrored, setComparisonMirrored] = useState(true);
+  const [comparisonMuted, setComparisonMuted] = useState(true);
+  const [playlist, setPlaylist] = useState<PlaylistItem[]>(initialSession?.playlist ?? []);
+  const [playlistRun, setPlaylistRun] = useState<PlaylistRun | null>(null);
+  const playlistRepeatRef = useRef<() => void>(() => {});
+  const [takes, setTakes] = useState<PracticeTake[]>([]);
+  const [isRecordingTakes, setIsRecordingTakes] = useState(false);
+  const [recordingRep, setRecordingRep] = useState(0);
+  const [practiceStats, setPracticeStats] = useState<PracticeStats>(initialSession?.practiceStats ?? EMPTY_PRACTICE_STATS);
+  const [showStats, setShowStats] = useState(false);
+  const [showPracticeHeat, setShowPracticeHeat] = useState(false);
+  const [reviewSchedule, setReviewSchedule] = useState<ReviewSchedule>(initialSession?.reviewSchedule ?? {});
+  const [reviewRun, setReviewRun] = useState<ReviewRun | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const takeSessionRef = useRef<{
+    stream: MediaStream;
+    recorder: TakeRecorder;
+    rep: number;
+    pending: Omit<PracticeTake, 'id' | 'fingerprint' | 'duration' | 'recordedAt' | 'mimeType' | 'size' | 'blob'> | null;
+  } | null>(null);
+
+  // Playback status follows the element's own events, so the controls never claim more than the video is doing.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const handleEvent = (e: Event) => {
+      setPlaybackStatus(status => nextPlaybackStatus(status, e.type as PlaybackEvent, video.paused));
+    };
+    PLAYBACK_EVENTS.forEach(event => video.addEventListener(event, handleEvent));
+    return () => {
+      PLAYBACK_EVENTS.forEach(event => video.removeEventListener(event, handleEvent));
+    };
+  }, []);
 
   // Video metadata loading and initial setup
   useEffect(() => {
@@ -39,22 +200,229 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
 
     const handleLoadedMetadata = () => {
       setDuration(video.duration);
-      setLoopEnd(video.duration);
+      const resume = resumeAfterReloadRef.current;
+      if (resume) {
+        // Reloaded after an error: carry on from where it failed instead of restoring the saved session again.
+        resumeAfterReloadRef.current = null;
+        video.playbackRate = resume.rate;
+        video.currentTime = Math.min(resume.time, video.duration);
+        return;
+      }
+      if (video.videoWidth === 0) {
+        setPlaybackError({ message: NO_PICTURE_MESSAGE, canRetry: false });
+        setPlaybackStatus('error');
+      }
+      if (initialSession) {
+        // Restore the saved session once the real duration is known so loop points can be clamped.
+        const end = Math.min(initialSession.loopEnd, video.duration);
+        const start = Math.min(initialSession.loopStart, end);
+        setLoopStart(start);
+        setLoopEnd(end > start ? end : video.duration);
+        setIsLooping(initialSession.isLooping);
+        setActiveStepId(initialSession.activeStepId);
+        video.playbackRate = initialSession.playbackRate;
+        setPlaybackRate(initialSession.playbackRate);
+        video.currentTime = Math.min(initialSession.lastPosition, video.duration);
+        setCurrentTime(video.currentTime);
+      } else {
+        setLoopEnd(video.duration);
+      }
+    };
+
+    const handleError = () => {
+      console.error('Failed to load video', video.error);
+      setPlaybackError({
+        message: describeMediaError(video.error),
+        canRetry: video.error?.code !== MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED,
+      });
     };
 
     video.addEventListener('loadedmetadata', handleLoadedMetadata);
+    video.addEventListener('error', handleError);
     // Reset state when video changes
+    setPlaybackError(null);
     video.src = videoUrl;
     setLoopStart(0);
     setLoopEnd(0);
     setCurrentTime(0);
-    setIsPlaying(false);
 
     return () => {
       video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('error', handleError);
     };
-  }, [videoUrl]);
+  }, [videoUrl, initialSession]);
   
+  // Buffering that clears within a moment (e.g. a loop wrap) isn't worth flashing a message for.
+  useEffect(() => {
+    if (playbackStatus !== 'buffering') {
+      setShowBuffering(false);
+      return;
+    }
+    const timer = window.setTimeout(() => setShowBuffering(true), BUFFERING_NOTICE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [playbackStatus]);
+
+  const audioProcessingRef = useRef({ pitchRatio: 1, gain: 1 });
+
+  const applyAudioProcessing = useCallback((video: HTMLVideoElement) => {
+    const { pitchRatio, gain } = audioProcessingRef.current;
+    if (pitchRatio === 1 && gain === 1 && !hasMediaAudioGraph(video)) return;
+    getMediaAudioGraph(video)
+      .then(graph => {
+        graph.setPitchRatio(pitchRatio);
+        graph.setGain(gain);
+      })
+      .catch(error => console.error('Audio processing unavailable', error));
+  }, []);
+
+  // Every play request goes through here, so a refused play() can't leave the controls claiming playback.
+  // The audio graph is built here too: a context created without a user gesture starts suspended.
+  const playVideo = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    resumeMediaAudio(video);
+    applyAudioProcessing(video);
+    playMedia(video).then(failure => {
+      if (!failure) return;
+      setPlaybackStatus(status => nextPlaybackStatus(status, 'pause', video.paused));
+      if (failure === 'blocked') {
+        alert('The browser blocked playback. Press play to start.');
+      }
+    });
+  }, []);
+
+  const handleRetry = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    resumeAfterReloadRef.current = { time: video.currentTime || currentTime, rate: playbackRate };
+    setPlaybackError(null);
+    video.load();
+  };
+
+  const cancelCountIn = useCallback(() => {
+    countInTimersRef.current.forEach(timer => window.clearTimeout(timer));
+    countInTimersRef.current = [];
+    cancelClicks(countInClicksRef.current);
+    countInClicksRef.current = [];
+    isCountingInRef.current = false;
+    setIsHolding(false);
+    setCountInLabel(null);
+  }, []);
+
+  // Holds the video where it is and counts in before playing on.
+  const runCountIn = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    cancelCountIn();
+    video.pause();
+    isCountingInRef.current = true;
+    setIsHolding(true);
+
+    const beatSeconds = 60 / (tempo?.bpm ?? DEFAULT_COUNT_IN_BPM) / video.playbackRate;
+    const labels = countInLabels(countIn.beats);
+    if (countIn.audible) {
+      const context = getAudioContext();
+      const startAt = context.currentTime + CLICK_LEAD_SECONDS;
+      countInClicksRef.current = labels.map((_, i) => scheduleClick(context, startAt + i * beatSeconds, i === 0));
+    }
+    countInTimersRef.current = labels.map((label, i) =>
+      window.setTimeout(() => setCountInLabel(label), (CLICK_LEAD_SECONDS + i * beatSeconds) * 1000)
+    );
+    countInTimersRef.current.push(window.setTimeout(() => {
+      isCountingInRef.current = false;
+      setIsHolding(false);
+      setCountInLabel(null);
+      playVideo();
+    }, (CLICK_LEAD_SECONDS + labels.length * beatSeconds) * 1000));
+  }, [tempo, countIn, cancelCountIn, playVideo]);
+
+  // Rests share the count-in's hold, so pausing or seeking cancels either one.
+  const runRest = useCallback((seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    cancelCountIn();
+    video.pause();
+    isCountingInRef.current = true;
+    setIsHolding(true);
+    const whole = Math.ceil(seconds);
+    countInTimersRef.current = Array.from({ length: whole }, (_, i) =>
+      window.setTimeout(() => setCountInLabel(`Rest ${whole - i}`), (seconds - whole + i) * 1000)
+    );
+    countInTimersRef.current.push(window.setTimeout(() => {
+      isCountingInRef.current = false;
+      setIsHolding(false);
+      setCountInLabel(null);
+      if (countIn.enabled) {
+        runCountIn();
+      } else {
+        playVideo();
+      }
+    }, seconds * 1000));
+  }, [countIn.enabled, runCountIn, cancelCountIn, playVideo]);
+
+  useEffect(() => cancelCountIn, [cancelCountIn]);
+
+  // A decode in progress is shared by the waveform and tempo detection. It isn't
+  // kept afterwards: the PCM of a long video runs to hundreds of megabytes.
+  const loadAudioBuffer = useCallback(() => {
+    if (!audioBufferRef.current) {
+      const pending = fetch(videoUrl).then(response => response.blob()).then(decodeAudio);
+      const release = () => {
+        if (audioBufferRef.current === pending) audioBufferRef.current = null;
+      };
+      pending.then(release, release);
+      audioBufferRef.current = pending;
+    }
+    return audioBufferRef.current;
+  }, [videoUrl]);
+
+  const loadsWaveformAutomatically = videoSize > 0 && videoSize <= WAVEFORM_AUTO_MAX_BYTES;
+  const isWaveformDeferred = !loadsWaveformAutomatically && !isWaveformRequested;
+
+  useEffect(() => {
+    setPeaks(null);
+    if (isWaveformDeferred) return;
+    let cancelled = false;
+    loadAudioBuffer()
+      .then(buffer => {
+        if (!cancelled) setPeaks(computePeaks(buffer, WAVEFORM_PEAKS_PER_SECOND));
+      })
+      .catch(error => {
+        console.error('Failed to decode audio for the waveform', error);
+        if (!cancelled) setPeaks(new Float32Array(0));
+      });
+    return () => { cancelled = true; };
+  }, [loadAudioBuffer, isWaveformDeferred]);
+
+  // Thumbnails are grabbed in the background once the duration is known
+  useEffect(() => {
+    if (duration === 0) return;
+    let cancelled = false;
+    const collected: Thumbnail[] = [];
+    setThumbnails([]);
+    generateThumbnails(
+      videoUrl,
+      thumbnailTimes(duration),
+      THUMBNAIL_HEIGHT,
+      thumbnail => {
+        collected.push(thumbnail);
+        setThumbnails([...collected]);
+      },
+      () => cancelled,
+    ).catch(error => console.error('Failed to generate thumbnails', error));
+    return () => { cancelled = true; };
+  }, [videoUrl, duration]);
+
+  // Learn the real frame rate from presented frames
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    return watchFrameRate(video, fps => {
+      frameRateRef.current = fps;
+      setFrameRate(fps);
+    });
+  }, [videoUrl]);
+
   // Time update and looping logic
   useEffect(() => {
     const video = videoRef.current;
@@ -64,7 +432,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
       const current = video.currentTime;
       setCurrentTime(current);
       if (isLooping && current >= loopEnd) {
+        setPracticeStats(stats => addRepetition(stats, localDateKey(new Date()), activeStepId));
+        if (playlistRun) {
+          playlistRepeatRef.current();
+          return;
+        }
         video.currentTime = loopStart;
+        if (trainerState) {
+          const next = advanceTrainer(trainerState, trainerSettings);
+          setTrainerState(next);
+          if (next.rate !== video.playbackRate) {
+            video.playbackRate = next.rate;
+            setPlaybackRate(next.rate);
+          }
+        }
+        if (countIn.enabled) {
+          runCountIn();
+        }
       }
     };
     
@@ -73,44 +457,208 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
     return () => {
       video.removeEventListener('timeupdate', handleTimeUpdate);
     };
-  }, [isLooping, loopStart, loopEnd]);
+  }, [isLooping, loopStart, loopEnd, countIn.enabled, runCountIn, trainerState, trainerSettings, playlistRun, activeStepId]);
 
-  // Keyboard controls
+  // Practice time counts only while the video is actually moving, not during count-ins, rests or buffering.
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement) return;
-      if (e.code === 'Space') {
-        e.preventDefault();
-        togglePlayPause();
+    if (playbackStatus !== 'playing') return;
+    let lastFlush = performance.now();
+    const flush = () => {
+      const now = performance.now();
+      const seconds = (now - lastFlush) / 1000;
+      lastFlush = now;
+      setPracticeStats(stats => addPracticeTime(stats, localDateKey(new Date()), activeStepId, playbackRate, seconds));
+    };
+    const timer = window.setInterval(flush, PRACTICE_FLUSH_MS);
+    return () => {
+      window.clearInterval(timer);
+      flush();
+    };
+  }, [playbackStatus, activeStepId, playbackRate]);
+
+  // Metronome: schedules clicks a little ahead of the playhead, converting media
+  // time to audio time through the current playback rate so it follows speed changes.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !metronomeEnabled || !tempo || !isPlaying) return;
+
+    const context = getAudioContext();
+    const beatSeconds = 60 / tempo.bpm;
+    let scheduled: OscillatorNode[] = [];
+    let nextBeat: number | null = null;
+
+    const tick = () => {
+      if (video.paused) {
+        nextBeat = null;
+        return;
+      }
+      const mediaNow = video.currentTime;
+      const rate = video.playbackRate;
+      const horizon = mediaNow + METRONOME_LOOKAHEAD_SECONDS * rate;
+      // Re-anchor after seeks and loop wraps.
+      if (nextBeat === null || nextBeat < mediaNow - CLICK_LEAD_SECONDS || nextBeat > horizon + beatSeconds) {
+        nextBeat = nextBeatTime(mediaNow, tempo);
       }
+      while (nextBeat <= horizon && !(isLooping && nextBeat >= loopEnd)) {
+        const when = context.currentTime + (nextBeat - mediaNow) / rate;
+        scheduled.push(scheduleClick(context, when, isDownbeatAt(nextBeat, tempo), 0.4));
+        nextBeat += beatSeconds;
+      }
+      scheduled = scheduled.slice(-8);
     };
-    window.addEventListener('keydown', handleKeyDown);
+
+    const timer = window.setInterval(tick, METRONOME_TICK_MS);
     return () => {
-      window.removeEventListener('keydown', handleKeyDown);
+      window.clearInterval(timer);
+      cancelClicks(scheduled);
     };
-  }, []);
+  }, [metronomeEnabled, tempo, isPlaying, isLooping, loopEnd]);
 
-  // Sync active step with loop points
+  // Sync active step with loop points and its playback options, unless it has been detached
   useEffect(() => {
-    if (activeStepId) {
+    if (activeStepId && !isStepDetached) {
       setSteps(prevSteps => prevSteps.map(step => 
-        step.id === activeStepId ? { ...step, start: loopStart, end: loopEnd } : step
+        step.id === activeStepId ? { ...step, start: loopStart, end: loopEnd, mirrored: isMirrored, preservePitch } : step
       ));
     }
-  }, [loopStart, loopEnd, activeStepId]);
+  }, [loopStart, loopEnd, isMirrored, preservePitch, activeStepId, isStepDetached]);
+
+  // Edit history. The snapshot ref is refreshed every render so memoized handlers record current state.
+  const editSnapshotRef = useRef<EditSnapshot>(null);
+  editSnapshotRef.current = { steps, playlist, activeStepId, isStepDetached, loopStart, loopEnd };
+
+  const recordHistory = useCallback((label: string) => {
+    const before = editSnapshotRef.current;
+    if (before) setHistory(current => recordEdit(current, label, before, Date.now()));
+  }, []);
+
+  const restoreSnapshot = (snapshot: EditSnapshot) => {
+    setSteps(snapshot.steps);
+    setPlaylist(snapshot.playlist);
+    setActiveStepId(snapshot.activeStepId);
+    setIsStepDetached(snapshot.isStepDetached);
+    setLoopStart(snapshot.loopStart);
+    setLoopEnd(snapshot.loopEnd);
+  };
+
+  const handleUndo = () => {
+    const result = editSnapshotRef.current && undoEdit(history, editSnapshotRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  const handleRedo = () => {
+    const result = editSnapshotRef.current && redoEdit(history, editSnapshotRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  // Volume and mute go straight to the element
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.volume = audioSettings.volume;
+    video.muted = audioSettings.muted;
+  }, [audioSettings.volume, audioSettings.muted]);
+
+  // Pitch preservation uses the browser's preservesPitch where available and
+  // falls back to a Web Audio pitch shifter; slow boost also needs Web Audio.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const hasNativePitch = supportsNativePitchPreservation(video);
+    if (hasNativePitch) {
+      setNativePreservesPitch(video, preservePitch);
+    }
+    audioProcessingRef.current = {
+      pitchRatio: preservePitch && !hasNativePitch ? 1 / playbackRate : 1,
+      gain: playbackRate < 1 ? audioSettings.slowBoost : 1,
+    };
+    // While paused, a graph that doesn't exist yet waits for playVideo to build it.
+    if (hasMediaAudioGraph(video) || !video.paused) {
+      applyAudioProcessing(video);
+    }
+  }, [preservePitch, playbackRate, audioSettings.slowBoost, applyAudioProcessing]);
 
+  // Track fullscreen so the button reflects exits via Escape
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === stageRef.current);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, []);
+
+  // Session persistence: the snapshot ref always sees the latest state, so the
+  // unmount and pagehide handlers save what is on screen rather than a stale closure.
+  const sessionSnapshotRef = useRef<() => PracticeSession | null>(() => null);
+  sessionSnapshotRef.current = () => {
+    if (!fingerprint || duration === 0) return null;
+    return {
+      fingerprint,
+      videoName,
+      videoSize,
+      duration,
+      steps,
+      activeStepId,
+      isLooping,
+      loopStart,
+      loopEnd,
+      playbackRate,
+      isMirrored,
+      tempo,
+      snapToBeats,
+      countIn,
+      metronomeEnabled,
+      trainerSettings,
+      audioSettings,
+      preservePitch,
+      collapsedSections,
+      annotations,
+      playlist,
+      practiceStats,
+      reviewSchedule,
+      showStepLabels,
+      lastPosition: currentTime,
+      updatedAt: Date.now(),
+    };
+  };
+
+  const persistSession = useCallback(() => {
+    const session = sessionSnapshotRef.current();
+    if (session) {
+      saveSession(session).catch(error => console.error('Failed to save practice session', error));
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(persistSession, 500);
+    return () => window.clearTimeout(timer);
+  }, [steps, activeStepId, isLooping, loopStart, loopEnd, playbackRate, isMirrored, tempo, snapToBeats, countIn, metronomeEnabled, trainerSettings, audioSettings, preservePitch, collapsedSections, annotations, playlist, practiceStats, reviewSchedule, showStepLabels, isPlaying, duration, persistSession]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', persistSession);
+    return () => {
+      window.removeEventListener('pagehide', persistSession);
+      persistSession();
+    };
+  }, [persistSession]);
 
   const togglePlayPause = useCallback(() => {
     const video = videoRef.current;
     if (!video) return;
-    if (video.paused) {
-      video.play().catch(console.error);
-      setIsPlaying(true);
+    if (isCountingInRef.current) {
+      cancelCountIn();
+    } else if (video.paused) {
+      playVideo();
     } else {
       video.pause();
-      setIsPlaying(false);
     }
-  }, []);
+  }, [cancelCountIn, playVideo]);
 
   const handleSeek = useCallback((time: number) => {
     const video = videoRef.current;
@@ -120,7 +668,19 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
     }
   }, []);
 
-  const handleSpeedChange = useCallback((rate: number) => {
+  const handleStepFrame = useCallback((offset: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isCountingInRef.current) {
+      cancelCountIn();
+    }
+    video.pause();
+    const time = Math.min(frameStepTime(video.currentTime, offset, frameRateRef.current), video.duration || 0);
+    video.currentTime = time;
+    setCurrentTime(time);
+  }, [cancelCountIn]);
+
+  const applyPlaybackRate = useCallback((rate: number) => {
     const video = videoRef.current;
     if (video) {
       video.playbackRate = rate;
@@ -128,20 +688,169 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
     }
   }, []);
 
-  const handleSetLoopStart = () => {
+  // A manual speed choice takes over from the trainer.
+  const handleSpeedChange = useCallback((rate: number) => {
+    setTrainerState(null);
+    applyPlaybackRate(rate);
+  }, [applyPlaybackRate]);
+
+  // Speed trainer
+  const handleStartTrainer = () => {
+    setPlaylistRun(null);
+    const state = startTrainer(trainerSettings);
+    setTrainerState(state);
+    applyPlaybackRate(state.rate);
+    setIsLooping(true);
+    handleSeek(loopStart);
+    if (countIn.enabled) {
+      runCountIn();
+    } else if (videoRef.current?.paused) {
+      togglePlayPause();
+    }
+  };
+
+  const handleConfirmTrainer = () => {
+    if (!trainerState) return;
+    const next = confirmTrainerLevel(trainerState, trainerSettings);
+    setTrainerState(next);
+    applyPlaybackRate(next.rate);
+  };
+
+  // Tempo and beat grid
+  const beatMarkers = useMemo(
+    () => (tempo && duration > 0 ? beatGrid(tempo, 0, duration) : []),
+    [tempo, duration]
+  );
+
+  const snapTime = useCallback((time: number) => {
+    if (!tempo || !snapToBeats) return time;
+    return Math.min(snapToBeat(time, tempo), duration);
+  }, [tempo, snapToBeats, duration]);
+
+  const handleTap = useCallback(() => {
+    // Taps are recorded in media time, so they give the beat phase as well as the BPM.
     const time = videoRef.current?.currentTime ?? 0;
+    const taps = continuesTapSequence(tapTimesRef.current, time) ? [...tapTimesRef.current, time] : [time];
+    tapTimesRef.current = taps;
+    setTapCount(taps.length);
+    const estimate = tempoFromTaps(taps);
+    if (estimate) {
+      setTempo(prev => ({ ...estimate, beatsPerBar: prev?.beatsPerBar ?? 4, source: 'tap' }));
+    }
+  }, []);
+
+  const handleDetectTempo = async () => {
+    setIsDetectingTempo(true);
+    try {
+      const buffer = await loadAudioBuffer();
+      const estimate = await detectTempo(buffer, tempo?.beatsPerBar ?? 4);
+      setTempo({ ...estimate, beatsPerBar: tempo?.beatsPerBar ?? 4, source: 'detected' });
+    } catch (error) {
+      console.error('Tempo detection failed', error);
+      alert('Could not detect the tempo of this video. Try tapping along instead.');
+    } finally {
+      setIsDetectingTempo(false);
+    }
+  };
+
+  const handleSetDownbeat = () => {
+    if (!tempo) return;
+    setTempo({ ...tempo, offset: videoRef.current?.currentTime ?? 0 });
+  };
+
+  const handleTempoChange = (next: TempoMap | null) => {
+    setTempo(next);
+    if (!next) {
+      setSnapToBeats(false);
+      setMetronomeEnabled(false);
+    }
+  };
+
+  const handleDragLoopStart = useCallback((time: number) => {
+    const snapped = snapTime(time);
+    if (snapped < loopEnd) {
+      recordHistory('Move loop start');
+      setLoopStart(snapped);
+    }
+  }, [snapTime, loopEnd, recordHistory]);
+
+  const handleDragLoopEnd = useCallback((time: number) => {
+    const snapped = snapTime(time);
+    if (snapped > loopStart) {
+      recordHistory('Move loop end');
+      setLoopEnd(snapped);
+    }
+  }, [snapTime, loopStart, recordHistory]);
+
+  const handleMoveLoop = useCallback((start: number, end: number) => {
+    recordHistory('Move loop');
+    setLoopStart(start);
+    setLoopEnd(end);
+  }, [recordHistory]);
+
+  const handleSetLoopStart = () => {
+    const time = snapTime(videoRef.current?.currentTime ?? 0);
     if (time < loopEnd) {
+      recordHistory('Set loop start');
       setLoopStart(time);
     }
   };
 
   const handleSetLoopEnd = () => {
-    const time = videoRef.current?.currentTime ?? 0;
+    const time = snapTime(videoRef.current?.currentTime ?? 0);
     if (time > loopStart) {
+      recordHistory('Set loop end');
       setLoopEnd(time);
     }
   };
 
+  const handleEditLoopStart = (time: number) => {
+    recordHistory('Set loop start');
+    setLoopStart(time);
+  };
+
+  const handleEditLoopEnd = (time: number) => {
+    recordHistory('Set loop end');
+    setLoopEnd(time);
+  };
+
+  // Detaching an active step
+  const handleSaveLoopToStep = () => {
+    recordHistory('Save loop to step');
+    setIsStepDetached(false);
+  };
+
+  const handleRevertLoopToStep = () => {
+    const step = steps.find(other => other.id === activeStepId);
+    if (!step) return;
+    recordHistory('Back to step');
+    setLoopStart(step.start);
+    setLoopEnd(step.end);
+    setIsStepDetached(false);
+  };
+
+  const toggleFullscreen = () => {
+    // The stage (not the <video>) goes fullscreen so the mirror transform still applies.
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(console.error);
+    } else {
+      stageRef.current?.requestFullscreen().catch(console.error);
+    }
+  };
+
+  const handleSnapshot = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    try {
+      const blob = await captureFrame(video, isMirrored);
+      const timestamp = formatTime(video.currentTime).replace(/[:.]/g, '-');
+      downloadBlob(blob, `${fileBaseName(videoName) || 'frame'}_${timestamp}.png`);
+    } catch (error) {
+      console.error('Failed to capture frame', error);
+      alert('Could not capture a frame from this video.');
+    }
+  };
+
   const handleReset = () => {
     if (videoRef.current) {
         videoRef.current.currentTime = loopStart;
@@ -150,28 +859,143 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
   
   // Step handlers
   const handleAddStep = () => {
+    const start = snapTime(loopStart);
+    const end = snapTime(loopEnd);
     const newStep: Step = {
         id: new Date().toISOString(),
         name: `Step ${steps.length + 1}`,
-        start: loopStart,
-        end: loopEnd,
+        start,
+        end: end > start ? end : loopEnd,
     };
-    setSteps([...steps, newStep]);
+    recordHistory('Add step');
+    setSteps(renumberSteps(orderSteps([...steps, newStep])));
   };
 
-  const handlePlayStep = (step: Step) => {
-    setActiveStepId(step.id);
-    setLoopStart(step.start);
-    setLoopEnd(step.end);
+  // Loops a span; a step also becomes active so its own playback options apply.
+  const playLoop = (start: number, end: number, step: Step | null) => {
+    setActiveStepId(step?.id ?? null);
+    setIsStepDetached(false);
+    if (step?.mirrored !== undefined) {
+      setIsMirrored(step.mirrored);
+    }
+    if (step?.preservePitch !== undefined) {
+      setPreservePitch(step.preservePitch);
+    }
+    setLoopStart(start);
+    setLoopEnd(end);
     setIsLooping(true);
-    handleSeek(step.start);
-    if (videoRef.current?.paused) {
+    handleSeek(start);
+    if (countIn.enabled) {
+        runCountIn();
+    } else if (videoRef.current?.paused) {
         togglePlayPause();
     }
   };
 
+  const handlePlayStep = (step: Step) => {
+    setPlaylistRun(null);
+    playLoop(step.start, step.end, step);
+  };
+
+  const handlePlaySection = (section: string) => {
+    const range = sectionRange(steps, section);
+    if (range) {
+      setPlaylistRun(null);
+      playLoop(range.start, range.end, null);
+    }
+  };
+
+  // Step organization
+  const handleMoveStep = (id: string, target: StepDropTarget) => {
+    recordHistory('Reorder steps');
+    setSteps(moveStep(steps, id, target));
+  };
+
+  const handleSortSteps = () => {
+    recordHistory('Sort steps');
+    setSteps(sortStepsByStart(steps));
+  };
+
+  const handleSetStepSection = (id: string, section: string | null) => {
+    recordHistory('Change section');
+    const moved = steps.map(step => step.id === id ? { ...step, section: section ?? undefined } : step);
+    setSteps(renumberSteps(orderSteps(moved)));
+  };
+
+  const handleRenameSection = (from: string, to: string) => {
+    recordHistory('Rename section');
+    setSteps(renumberSteps(renameSection(steps, from, to)));
+    setCollapsedSections(collapsedSections.map(section => section === from ? to.trim() : section));
+  };
+
+  const handleToggleSection = (section: string) => {
+    setCollapsedSections(collapsedSections.includes(section)
+      ? collapsedSections.filter(other => other !== section)
+      : [...collapsedSections, section]);
+  };
+
+  // Practice routine
+  const playPlaylistItem = (item: PlaylistItem) => {
+    const range = playlistItemRange(item, steps);
+    if (!range) return;
+    const step = item.stepIds.length === 1 ? steps.find(other => other.id === item.stepIds[0]) ?? null : null;
+    applyPlaybackRate(item.rate);
+    playLoop(range.start, range.end, step);
+  };
+
+  const startPlaylist = (items: PlaylistItem[]) => {
+    const run = startPlaylistRun(items, steps);
+    if (!run) {
+      alert('None of the routine\'s steps can be played.');
+      return;
+    }
+    cancelCountIn();
+    setTrainerState(null);
+    setReviewRun(null);
+    setPlaylistRun(run);
+    playPlaylistItem(run.items[0]);
+  };
+
+  const handleStopPlaylist = () => {
+    if (isCountingInRef.current) {
+      cancelCountIn();
+    }
+    setPlaylistRun(null);
+  };
+
+  // Called at each loop wrap while a routine runs.
+  playlistRepeatRef.current = () => {
+    const video = videoRef.current;
+    if (!video || !playlistRun) return;
+    const finishedItem = playlistRun.items[playlistRun.itemIndex];
+    const next = advancePlaylistRun(playlistRun);
+    setPlaylistRun(next);
+    if (next.finished) {
+      video.pause();
+      setIsLooping(false);
+      return;
+    }
+    if (next.itemIndex !== playlistRun.itemIndex) {
+      playPlaylistItem(next.items[next.itemIndex]);
+    } else {
+      video.currentTime = loopStart;
+    }
+    if (finishedItem.pauseSeconds > 0) {
+      runRest(finishedItem.pauseSeconds);
+    } else if (countIn.enabled && next.itemIndex === playlistRun.itemIndex) {
+      runCountIn();
+    }
+  };
+
   const handleDeleteStep = (id: string) => {
-    setSteps(steps.filter(step => step.id !== id));
+    const step = steps.find(other => other.id === id);
+    if (!step || !window.confirm(`Delete "${step.name}"? You can undo this.`)) return;
+    recordHistory('Delete step');
+    setSteps(renumberSteps(orderSteps(steps.filter(step => step.id !== id))));
+    setPlaylist(removeStepFromPlaylist(playlist, id));
+    if (playlistRun?.items.some(item => item.stepIds.includes(id))) {
+      setPlaylistRun(null);
+    }
     if (activeStepId === id) {
         setActiveStepId(null);
         setIsLooping(false); // Optionally turn off looping
@@ -179,15 +1003,38 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
   };
 
   const handleUpdateStepName = (id: string, name: string) => {
+    if (steps.find(step => step.id === id)?.name === name) return;
+    recordHistory('Rename step');
     setSteps(steps.map(step => step.id === id ? { ...step, name } : step));
   };
+
+  const handleUpdateStepDetails = (id: string, patch: StepMetadata) => {
+    const { mastery } = patch;
+    if (mastery && mastery !== (steps.find(step => step.id === id)?.mastery ?? 'new')) {
+      setPracticeStats(stats => recordMasteryChange(stats, id, mastery, Date.now()));
+    }
+    setSteps(steps.map(step => step.id === id ? { ...step, ...patch } : step));
+  };
+
+  const handleUpdateStepTimes = (id: string, start: number, end: number) => {
+    recordHistory('Retime step');
+    if (id === activeStepId && !isStepDetached) {
+      // The active step follows the loop points, so edit those instead.
+      setLoopStart(start);
+      setLoopEnd(end);
+    } else {
+      setSteps(steps.map(step => step.id === id ? { ...step, start, end } : step));
+    }
+  };
   
   const handleSaveSteps = () => {
-    if (steps.length === 0) return;
-    const dataStr = JSON.stringify(steps.map(({ id, ...rest }) => rest), null, 2);
+    if (steps.length === 0 && annotations.length === 0) return;
+    const stepsDocument = createStepsDocument(steps, { name: videoName, duration, fingerprint }, annotations);
+    const dataStr = JSON.stringify(stepsDocument, null, 2);
     const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
     
-    const exportFileDefaultName = 'dance_steps.json';
+    const baseName = fileBaseName(videoName);
+    const exportFileDefaultName = baseName ? `${baseName}_steps.json` : 'dance_steps.json';
 
     const linkElement = document.createElement('a');
     linkElement.setAttribute('href', dataUri);
@@ -195,72 +1042,564 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
     linkElement.click();
   };
 
-  const handleLoadSteps = (importedSteps: Omit<Step, 'id'>[]) => {
-    const stepsWithIds = importedSteps.map((step, index) => ({
+  const handleLoadSteps = (imported: StepsDocument, mode: ImportMode) => {
+    recordHistory('Import steps');
+    const importedSteps = imported.steps;
+    const importedAnnotations = imported.annotations ?? [];
+    const toAdd = mode === 'merge' ? findNewSteps(steps, importedSteps).steps : importedSteps;
+    const stepsWithIds = toAdd.map((step, index) => ({
       ...step,
       id: new Date().toISOString() + `-${index}`,
     }));
-    setSteps(stepsWithIds);
+    if (mode === 'merge') {
+      setSteps(orderSteps([...steps, ...stepsWithIds]));
+      setAnnotations([...annotations, ...findNewAnnotations(annotations, importedAnnotations).map(createAnnotation)]);
+    } else {
+      setSteps(orderSteps(stepsWithIds));
+      setAnnotations(importedAnnotations.map(createAnnotation));
+      setActiveStepId(null);
+      setPlaylist([]);
+      setPlaylistRun(null);
+    }
+  };
+
+  const handleExportMarkers = (format: MarkerFormat) => {
+    const { extension, mimeType } = MARKER_FORMATS.find(option => option.value === format) ?? MARKER_FORMATS[0];
+    const blob = new Blob([stepsToMarkers(steps, format)], { type: mimeType });
+    downloadBlob(blob, `${fileBaseName(videoName) || 'dance'}_steps.${extension}`);
+  };
+
+  // Step names ride on a chapter track attached to the <video>. The track stays hidden and its
+  // active cue is drawn as an overlay, so mirroring the video doesn't mirror the text.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (!showStepLabels) {
+      if (chapterTrackRef.current) chapterTrackRef.current.mode = 'disabled';
+      setStepLabel(null);
+      return;
+    }
+    // Tracks added from script can't be removed, so one track is reused and refilled.
+    const track = chapterTrackRef.current ?? video.addTextTrack('chapters', 'Steps');
+    chapterTrackRef.current = track;
+    track.mode = 'hidden';
+    Array.from(track.cues ?? []).forEach(cue => track.removeCue(cue));
+    [...steps]
+      .sort((a, b) => a.start - b.start)
+      .forEach(step => track.addCue(new VTTCue(step.start, step.end, step.name)));
+
+    const handleCueChange = () => {
+      const names = Array.from(track.activeCues ?? []).map(cue => (cue as VTTCue).text);
+      setStepLabel(names.length > 0 ? names.join(' · ') : null);
+    };
+    handleCueChange();
+    track.addEventListener('cuechange', handleCueChange);
+    return () => {
+      track.removeEventListener('cuechange', handleCueChange);
+    };
+  }, [steps, showStepLabels]);
+
+  // Annotations
+  const handleCreateAnnotation = (kind: AnnotationKind, points: AnnotationPoint[], text?: string) => {
+    const now = videoRef.current?.currentTime ?? currentTime;
+    const end = Math.min(duration, now + DEFAULT_ANNOTATION_SECONDS);
+    const start = end > now ? now : Math.max(0, end - DEFAULT_ANNOTATION_SECONDS);
+    setAnnotations([...annotations, createAnnotation({ kind, start, end, color: annotationColor, points, text })]);
+  };
+
+  const handleUpdateAnnotation = (id: string, patch: Partial<Annotation>) => {
+    setAnnotations(annotations.map(annotation => annotation.id === id ? { ...annotation, ...patch } : annotation));
+  };
+
+  const handleDeleteAnnotation = (id: string) => {
+    setAnnotations(annotations.filter(annotation => annotation.id !== id));
+  };
+
+  const handleGoToAnnotation = (time: number) => {
+    if (isCountingInRef.current) {
+      cancelCountIn();
+    }
+    videoRef.current?.pause();
+    handleSeek(time);
+  };
+
+  // Side-by-side comparison
+  useEffect(() => {
+    if (comparison?.kind !== 'file') return;
+    const url = comparison.url;
+    return () => URL.revokeObjectURL(url);
+  }, [comparison]);
+
+  const handleCompareWebcam = () => {
+    setComparison({ kind: 'webcam' });
+    setComparisonMirrored(true);
+  };
+
+  const handleCompareFile = (file: File) => {
+    setComparison({ kind: 'file', url: URL.createObjectURL(file), name: file.name });
+    setComparisonMirrored(false);
+  };
+
+  const handleCameraError = useCallback((message: string) => {
+    alert(message);
+    setComparison(null);
+  }, []);
+
+  // Practice takes
+  const takesKey = fingerprint ?? videoName;
+
+  const refreshTakes = useCallback(async () => {
+    try {
+      const [saved, estimate] = await Promise.all([listTakes(takesKey), estimateStorage()]);
+      setTakes(saved);
+      setStorageEstimate(estimate);
+    } catch (error) {
+      console.error('Failed to load practice takes', error);
+    }
+  }, [takesKey]);
+
+  useEffect(() => {
+    refreshTakes();
+  }, [refreshTakes]);
+
+  // Refreshed every render so the media listeners below record against the current loop and step.
+  const takeSegmentRef = useRef<{ start: () => void; finish: () => void }>(null);
+  takeSegmentRef.current = {
+    start: () => {
+      const session = takeSessionRef.current;
+      const video = videoRef.current;
+      if (!session || !video || session.recorder.isRecording) return;
+      const step = steps.find(other => other.id === activeStepId) ?? null;
+      session.rep += 1;
+      session.pending = {
+        stepId: step?.id ?? null,
+        stepName: step?.name ?? 'Loop',
+        rep: session.rep,
+        playbackRate,
+        loopStart,
+        loopEnd,
+        referenceStart: video.currentTime,
+      };
+      session.recorder.start();
+      setRecordingRep(session.rep);
+    },
+    finish: () => {
+      const session = takeSessionRef.current;
+      if (!session || !session.pending) return;
+      const meta = session.pending;
+      session.pending = null;
+      setRecordingRep(0);
+      session.recorder.stop().then(async segment => {
+        if (!segment) return;
+        if (segment.duration < MIN_TAKE_SECONDS) {
+          // A seek or pause right after starting; not worth keeping, and not a rep.
+          if (session.rep === meta.rep) session.rep -= 1;
+          return;
+        }
+        await saveTake({
+          ...meta,
+          id: new Date().toISOString(),
+          fingerprint: takesKey,
+          duration: segment.duration,
+          recordedAt: Date.now(),
+          mimeType: segment.mimeType,
+          size: segment.blob.size,
+          blob: segment.blob,
+        });
+        await refreshTakes();
+      }).catch(error => {
+        console.error('Failed to save practice take', error);
+        alert('Could not save the take. Browser storage may be full.');
+      });
+    },
+  };
+
+  // Each stretch of continuous playback becomes one take. Loop wraps seek, so every repetition is its own.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isRecordingTakes) return;
+    const start = () => takeSegmentRef.current?.start();
+    const finish = () => takeSegmentRef.current?.finish();
+    const handleSeeked = () => {
+      if (!video.paused) start();
+    };
+    video.addEventListener('playing', start);
+    video.addEventListener('pause', finish);
+    video.addEventListener('seeking', finish);
+    video.addEventListener('seeked', handleSeeked);
+    if (!video.paused) start();
+    return () => {
+      video.removeEventListener('playing', start);
+      video.removeEventListener('pause', finish);
+      video.removeEventListener('seeking', finish);
+      video.removeEventListener('seeked', handleSeeked);
+    };
+  }, [isRecordingTakes]);
+
+  const stopTakeSession = useCallback(() => {
+    const session = takeSessionRef.current;
+    if (!session) return;
+    takeSegmentRef.current?.finish();
+    takeSessionRef.current = null;
+    // Let the last segment flush before releasing the camera.
+    window.setTimeout(() => session.stream.getTracks().forEach(track => track.stop()), 500);
+    setIsRecordingTakes(false);
+    setRecordingRep(0);
+  }, []);
+
+  useEffect(() => stopTakeSession, [stopTakeSession]);
+
+  const handleStartRecording = async () => {
+    if (!supportsTakeRecording()) {
+      alert('This browser cannot record from a camera here.');
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+      takeSessionRef.current = { stream, recorder: createTakeRecorder(stream), rep: 0, pending: null };
+      setIsRecordingTakes(true);
+      if (!comparison) handleCompareWebcam();
+    } catch (error) {
+      console.error('Failed to open the camera for recording', error);
+      alert('Could not open the camera. Check the permission and try again.');
+    }
+  };
+
+  const handleReplayTake = (take: PracticeTake) => {
+    stopTakeSession();
+    const step = steps.find(other => other.id === take.stepId) ?? null;
+    setComparison({
+      kind: 'file',
+      url: URL.createObjectURL(take.blob),
+      name: `${take.stepName} · rep ${take.rep} · ${take.playbackRate}x`,
+      timeScale: 1 / take.playbackRate,
+    });
+    // The take starts at its reference start and runs at real time, i.e. 1/rate of reference time.
+    setComparisonOffset(Math.round((-take.referenceStart / take.playbackRate) * 100) / 100);
+    setComparisonMirrored(true);
+    setPlaylistRun(null);
+    applyPlaybackRate(take.playbackRate);
+    playLoop(take.loopStart, take.loopEnd, step);
+  };
+
+  const handleDownloadTake = (take: PracticeTake) => {
+    const stepName = take.stepName.replace(/[^\w-]+/g, '_');
+    downloadBlob(take.blob, `${fileBaseName(videoName) || 'take'}_${stepName}_rep${take.rep}.${recordingExtension(take.mimeType)}`);
+  };
+
+  const handleDeleteTake = async (take: PracticeTake) => {
+    try {
+      await deleteTake(take.id);
+    } catch (error) {
+      console.error('Failed to delete practice take', error);
+    }
+    refreshTakes();
+  };
+
+  // Keyboard shortcuts
+  const handleKeymapChange = useCallback((next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  }, []);
+
+  const closeShortcuts = useCallback(() => setShowShortcuts(false), []);
+  const closeStats = useCallback(() => setShowStats(false), []);
+
+  const practiceHeatSpans = useMemo(
+    () => showPracticeHeat ? practiceHeat(practiceStats, steps) : undefined,
+    [showPracticeHeat, practiceStats, steps]
+  );
+
+  const handleExportStats = () => {
+    const blob = new Blob([statsToCsv(practiceStats, steps)], { type: 'text/csv' });
+    downloadBlob(blob, `${fileBaseName(videoName) || 'practice'}_stats.csv`);
+  };
+
+  const handlePracticeStep = (step: Step) => {
+    setShowStats(false);
+    handlePlayStep(step);
+  };
+
+  const today = localDateKey(new Date());
+  const reviewQueue = useMemo(() => {
+    const totals = stepTotals(practiceStats);
+    return buildReviewQueue(steps, reviewSchedule, today, id => totals[id]?.seconds ?? 0);
+  }, [steps, reviewSchedule, today, practiceStats]);
+
+  // Review steps play through the same path as clicking them in the list.
+  const playReviewStep = (run: ReviewRun) => {
+    const step = steps.find(candidate => candidate.id === run.queue[0]);
+    if (step) handlePlayStep(step);
+  };
+
+  const handleStartReview = () => {
+    const run = startReviewRun(reviewQueue);
+    if (!run) return;
+    setReviewRun(run);
+    playReviewStep(run);
+  };
+
+  const handleRateReview = (rating: ReviewRating) => {
+    const stepId = reviewRun?.queue[0];
+    if (!reviewRun || !stepId) return;
+    setReviewSchedule(schedule => ({ ...schedule, [stepId]: rescheduleStep(schedule[stepId], rating, today) }));
+    const next = advanceReviewRun(reviewRun, rating);
+    // Steps deleted mid-session drop out of the queue.
+    const run = { ...next, queue: next.queue.filter(id => steps.some(step => step.id === id)) };
+    setReviewRun(run);
+    if (run.queue.length > 0) {
+      playReviewStep(run);
+    } else {
+      videoRef.current?.pause();
+    }
+  };
+
+  const stepSpeed = (direction: 1 | -1) => {
+    const next = direction > 0
+      ? SPEED_PRESETS.find(speed => speed > playbackRate + 0.001)
+      : [...SPEED_PRESETS].reverse().find(speed => speed < playbackRate - 0.001);
+    if (next !== undefined) {
+      handleSpeedChange(next);
+    }
+  };
+
+  const seekBy = (offset: number) => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    handleSeek(Math.min(Math.max(time + offset, 0), duration));
   };
 
+  const playAdjacentStep = (direction: 1 | -1) => {
+    if (steps.length === 0) return;
+    const index = steps.findIndex(step => step.id === activeStepId);
+    const nextIndex = index === -1
+      ? (direction > 0 ? 0 : steps.length - 1)
+      : Math.min(Math.max(index + direction, 0), steps.length - 1);
+    if (nextIndex !== index) {
+      handlePlayStep(steps[nextIndex]);
+    }
+  };
+
+  // Refreshed every render so the single keydown listener always sees current state.
+  const shortcutHandlersRef = useRef<Record<ShortcutAction, () => void>>(null);
+  shortcutHandlersRef.current = {
+    togglePlay: togglePlayPause,
+    setLoopStart: handleSetLoopStart,
+    setLoopEnd: handleSetLoopEnd,
+    toggleLoop: () => setIsLooping(looping => !looping),
+    speedUp: () => stepSpeed(1),
+    speedDown: () => stepSpeed(-1),
+    seekBack: () => seekBy(-1),
+    seekForward: () => seekBy(1),
+    seekBackLong: () => seekBy(-5),
+    seekForwardLong: () => seekBy(5),
+    previousStep: () => playAdjacentStep(-1),
+    nextStep: () => playAdjacentStep(1),
+    addStep: handleAddStep,
+    frameBack: () => handleStepFrame(-1),
+    frameForward: () => handleStepFrame(1),
+    toggleMirror: () => setIsMirrored(mirrored => !mirrored),
+    tapTempo: handleTap,
+    undo: handleUndo,
+    redo: handleRedo,
+    showShortcuts: () => setShowShortcuts(true),
+  };
+
+  useEffect(() => {
+    // While the help overlay is open it handles the keyboard itself; the export dialog shouldn't drive the player.
+    if (showShortcuts || exportingStep || showStats || showSharePackage) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (isModifierKey(e)) return;
+      const action = findShortcutAction(keymap, comboFromEvent(e));
+      if (!action) return;
+      e.preventDefault();
+      if (e.repeat && !SHORTCUTS.find(shortcut => shortcut.action === action)?.repeatable) return;
+      shortcutHandlersRef.current?.[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [keymap, showShortcuts, exportingStep, showStats, showSharePackage]);
+
+  const shortcutHint = (action: ShortcutAction) =>
+    keymap[action].length > 0 ? ` (${formatCombo(keymap[action][0])})` : '';
+
   const loopDuration = isLooping ? loopEnd - loopStart : 0;
+  const activeStep = steps.find(step => step.id === activeStepId) ?? null;
+  const nextUndo = undoLabel(history);
+  const nextRedo = redoLabel(history);
   
   return (
     <div className="w-full h-full flex flex-col lg:flex-row gap-4">
       {/* Video Player & Controls */}
       <div className="flex-grow flex flex-col bg-gray-800 rounded-lg shadow-2xl overflow-hidden">
-        <div className="relative aspect-video bg-black">
-          <video ref={videoRef} className="w-full h-full" onClick={togglePlayPause} />
+        <div ref={stageRef} className="flex items-center gap-1 bg-black">
+          <div className={`relative flex-1 min-w-0 bg-black ${isFullscreen ? 'h-full' : 'aspect-video'}`}>
+            <video
+              ref={videoRef}
+              className={`w-full h-full ${isMirrored ? '-scale-x-100' : ''}`}
+              onClick={togglePlayPause}
+              onDoubleClick={toggleFullscreen}
+            />
+            <AnnotationOverlay
+              videoRef={videoRef}
+              annotations={annotations}
+              currentTime={currentTime}
+              isMirrored={isMirrored}
+              tool={annotationTool}
+              color={annotationColor}
+              onCreate={handleCreateAnnotation}
+            />
+            {stepLabel && (
+              <div className="absolute top-3 inset-x-0 flex justify-center pointer-events-none">
+                <span className="px-3 py-1 rounded-md bg-black/60 text-sm font-semibold text-white">{stepLabel}</span>
+              </div>
+            )}
+            {countInLabel && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="text-8xl font-bold text-white/90 drop-shadow-lg">{countInLabel}</span>
+              </div>
+            )}
+            {(playbackStatus === 'loading' || showBuffering) && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none" role="status">
+                <span className="px-3 py-1 rounded bg-black/60 text-sm text-gray-200 animate-pulse">
+                  {playbackStatus === 'loading' ? 'Loading video…' : 'Buffering…'}
+                </span>
+              </div>
+            )}
+            {playbackStatus === 'error' && (
+              <div className="absolute inset-0 flex items-center justify-center p-6 bg-gray-900/90" role="alert">
+                <div className="max-w-md text-center space-y-3">
+                  <p className="text-lg font-semibold text-red-300">Can't play {videoName}</p>
+                  <p className="text-sm text-gray-300">{playbackError?.message ?? describeMediaError(videoRef.current?.error ?? null)}</p>
+                  <div className="flex justify-center gap-2">
+                    {playbackError?.canRetry !== false && (
+                      <button onClick={handleRetry} className="px-3 py-2 text-sm rounded-md bg-emerald-500 hover:bg-emerald-600 text-white transition-colors">
+                        Retry
+                      </button>
+                    )}
+                    <button onClick={onNewVideo} className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+                      Open Another Video
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+          {comparison && (
+            <ComparisonView
+              referenceRef={videoRef}
+              source={comparison}
+              offset={comparisonOffset}
+              isMirrored={comparisonMirrored}
+              isMuted={comparisonMuted}
+              onCameraError={handleCameraError}
+              className={`flex-1 min-w-0 ${isFullscreen ? 'h-full' : 'aspect-video'}`}
+            />
+          )}
         </div>
         <div className="p-4 space-y-4">
             {/* Timeline */}
             <div className="flex items-center gap-3">
-              <span className="text-xs font-mono text-gray-400">{formatTime(currentTime)}</span>
+              <span className="text-xs font-mono text-gray-400 text-right">
+                {formatTime(currentTime)}
+                {tempo && <span className="block text-gray-500">{formatBarsBeats(currentTime, tempo)}</span>}
+              </span>
               <Timeline 
                 currentTime={currentTime}
                 duration={duration}
                 onSeek={handleSeek}
                 loopStart={loopStart}
                 loopEnd={loopEnd}
-                setLoopStart={setLoopStart}
-                setLoopEnd={setLoopEnd}
+                setLoopStart={handleDragLoopStart}
+                setLoopEnd={handleDragLoopEnd}
                 isLooping={isLooping}
+                beats={beatMarkers}
+                heat={practiceHeatSpans}
               />
               <span className="text-xs font-mono text-gray-400">{formatTime(duration)}</span>
             </div>
+            <WaveformTimeline
+              currentTime={currentTime}
+              duration={duration}
+              isPlaying={isPlaying}
+              onSeek={handleSeek}
+              loopStart={loopStart}
+              loopEnd={loopEnd}
+              isLooping={isLooping}
+              steps={steps}
+              activeStepId={activeStepId}
+              beats={beatMarkers}
+              peaks={peaks}
+              peaksPerSecond={WAVEFORM_PEAKS_PER_SECOND}
+              onLoadPeaks={isWaveformDeferred ? () => setIsWaveformRequested(true) : undefined}
+              thumbnails={thumbnails}
+              isMirrored={isMirrored}
+              snapTime={snapTime}
+              onPlayStep={handlePlayStep}
+              onUpdateStepTimes={handleUpdateStepTimes}
+              onMoveLoop={handleMoveLoop}
+            />
 
             {/* Redesigned Controls */}
             <div className="flex flex-wrap items-center justify-between gap-x-6 gap-y-4">
               
               {/* Playback Controls */}
               <div className="flex items-center gap-2">
-                <button onClick={togglePlayPause} className="p-2 rounded-full bg-emerald-500 hover:bg-emerald-600 text-white transition-colors">
+                <button onClick={togglePlayPause} disabled={playbackStatus === 'error'} title={`${isPlaying ? 'Pause' : 'Play'}${shortcutHint('togglePlay')}`} className="p-2 rounded-full bg-emerald-500 hover:bg-emerald-600 text-white transition-colors disabled:opacity-50">
                   {isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
                 </button>
                  <button onClick={handleReset} title="Reset to Loop Start" className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-full transition-colors">
                     <ResetIcon className="w-6 h-6" />
                 </button>
+                <button onClick={() => handleStepFrame(-1)} title={`Previous Frame${shortcutHint('frameBack')}`} className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-full transition-colors">
+                  <FrameBackIcon className="w-6 h-6" />
+                </button>
+                <button onClick={() => handleStepFrame(1)} title={`Next Frame${shortcutHint('frameForward')}`} className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-full transition-colors">
+                  <FrameForwardIcon className="w-6 h-6" />
+                </button>
                 <button 
                   onClick={() => setIsLooping(!isLooping)} 
-                  title="Toggle Loop"
+                  title={`Toggle Loop${shortcutHint('toggleLoop')}`}
                   className={`p-2 rounded-full transition-colors ${isLooping ? 'bg-emerald-500/80 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
                 >
                   <LoopIcon className="w-6 h-6" />
                 </button>
+                <button
+                  onClick={() => setIsMirrored(!isMirrored)}
+                  title={`Mirror Video${shortcutHint('toggleMirror')}`}
+                  className={`p-2 rounded-full transition-colors ${isMirrored ? 'bg-emerald-500/80 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                >
+                  <MirrorIcon className="w-6 h-6" />
+                </button>
+                <button onClick={toggleFullscreen} title={isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'} className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-full transition-colors">
+                  {isFullscreen ? <ExitFullscreenIcon className="w-6 h-6" /> : <FullscreenIcon className="w-6 h-6" />}
+                </button>
+                <button onClick={handleSnapshot} title="Save Frame Snapshot" className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-full transition-colors">
+                  <CameraIcon className="w-6 h-6" />
+                </button>
               </div>
 
               {/* Loop Settings */}
               <div className="flex items-center gap-2">
-                  <button onClick={handleSetLoopStart} title="Set Loop Start" className="flex items-center gap-2 px-3 py-2 text-sm rounded-md text-green-300 hover:bg-green-500/20 transition-colors">
+                  <button onClick={handleSetLoopStart} title={`Set Loop Start${shortcutHint('setLoopStart')}`} className="flex items-center gap-2 px-3 py-2 text-sm rounded-md text-green-300 hover:bg-green-500/20 transition-colors">
                       <SetStartIcon className="w-5 h-5" /> Set Start
                   </button>
-                  <button onClick={handleSetLoopEnd} title="Set Loop End" className="flex items-center gap-2 px-3 py-2 text-sm rounded-md text-red-300 hover:bg-red-500/20 transition-colors">
+                  <button onClick={handleSetLoopEnd} title={`Set Loop End${shortcutHint('setLoopEnd')}`} className="flex items-center gap-2 px-3 py-2 text-sm rounded-md text-red-300 hover:bg-red-500/20 transition-colors">
                       <SetEndIcon className="w-5 h-5" /> Set End
                   </button>
                   <div className="text-center font-mono text-xs text-emerald-400 pl-2 border-l border-gray-600">
                     <div>LOOP</div>
                     <div>{formatTime(loopDuration)}</div>
                   </div>
+                  <button onClick={handleUndo} disabled={!nextUndo} title={nextUndo ? `Undo ${nextUndo.toLowerCase()}${shortcutHint('undo')}` : 'Nothing to undo'} className="p-2 ml-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent">
+                    <UndoIcon className="w-5 h-5" />
+                  </button>
+                  <button onClick={handleRedo} disabled={!nextRedo} title={nextRedo ? `Redo ${nextRedo.toLowerCase()}${shortcutHint('redo')}` : 'Nothing to redo'} className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent">
+                    <RedoIcon className="w-5 h-5" />
+                  </button>
               </div>
 
               {/* Speed Controls */}
@@ -275,15 +1614,116 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
                         {speed}x
                     </button>
                 ))}
+                <RateInput rate={playbackRate} onChange={handleSpeedChange} />
               </div>
             </div>
 
-            {/* Video Info & New Video */}
+            {/* Precise Loop Bounds */}
+            <LoopBoundsEditor
+              loopStart={loopStart}
+              loopEnd={loopEnd}
+              duration={duration}
+              frameRate={frameRate}
+              onChangeStart={handleEditLoopStart}
+              onChangeEnd={handleEditLoopEnd}
+            />
+            {activeStep && (
+              <ActiveStepLink
+                stepName={activeStep.name}
+                isDetached={isStepDetached}
+                hasChanges={activeStep.start !== loopStart || activeStep.end !== loopEnd}
+                onDetach={() => setIsStepDetached(true)}
+                onSaveToStep={handleSaveLoopToStep}
+                onRevert={handleRevertLoopToStep}
+              />
+            )}
+
+            {/* Tempo & Beat Grid */}
+            <TempoControls
+              tempo={tempo}
+              tapCount={tapCount}
+              isDetecting={isDetectingTempo}
+              snapEnabled={snapToBeats}
+              onTap={handleTap}
+              onDetect={handleDetectTempo}
+              onSetDownbeat={handleSetDownbeat}
+              onChange={handleTempoChange}
+              onSnapChange={setSnapToBeats}
+            />
+            <SpeedTrainer
+              settings={trainerSettings}
+              state={trainerState}
+              onSettingsChange={setTrainerSettings}
+              onStart={handleStartTrainer}
+              onStop={() => setTrainerState(null)}
+              onConfirm={handleConfirmTrainer}
+            />
+            <AudioControls
+              settings={audioSettings}
+              preservePitch={preservePitch}
+              onSettingsChange={setAudioSettings}
+              onPreservePitchChange={setPreservePitch}
+            />
+            <CountInControls
+              countIn={countIn}
+              metronomeEnabled={metronomeEnabled}
+              hasTempo={tempo !== null}
+              onCountInChange={setCountIn}
+              onMetronomeChange={setMetronomeEnabled}
+            />
+            <ComparisonControls
+              source={comparison}
+              offset={comparisonOffset}
+              isMirrored={comparisonMirrored}
+              isMuted={comparisonMuted}
+              onUseWebcam={handleCompareWebcam}
+              onUseFile={handleCompareFile}
+              onOffsetChange={setComparisonOffset}
+              onMirroredChange={setComparisonMirrored}
+              onMutedChange={setComparisonMuted}
+              onClose={() => setComparison(null)}
+            />
+            <TakesPanel
+              takes={takes}
+              isRecording={isRecordingTakes}
+              recordingRep={recordingRep}
+              storage={storageEstimate}
+              onStartRecording={handleStartRecording}
+              onStopRecording={stopTakeSession}
+              onReplay={handleReplayTake}
+              onDownload={handleDownloadTake}
+              onDelete={handleDeleteTake}
+            />
+            <AnnotationsPanel
+              annotations={annotations}
+              currentTime={currentTime}
+              duration={duration}
+              tool={annotationTool}
+              color={annotationColor}
+              onToolChange={setAnnotationTool}
+              onColorChange={setAnnotationColor}
+              onUpdate={handleUpdateAnnotation}
+              onDelete={handleDeleteAnnotation}
+              onSeek={handleGoToAnnotation}
+            />
+
+            {/* Video Info & Add Video */}
             <div className="flex justify-between items-center pt-2 border-t border-gray-700">
                 <p className="text-sm text-gray-400 truncate pr-4">Now practicing: <span className="font-semibold text-gray-300">{videoName}</span></p>
-                <button onClick={onNewVideo} className="flex items-center gap-2 px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
-                    <UploadIcon className="w-4 h-4" /> New Video
-                </button>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setShowSharePackage(true)} disabled={duration === 0} title="Share Practice Package" className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50">
+                        <ExportIcon className="w-5 h-5" />
+                    </button>
+                    <button onClick={() => setShowStats(true)} title="Practice Stats" className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-md transition-colors">
+                        <ChartIcon className="w-5 h-5" />
+                    </button>
+                    <button onClick={() => setShowShortcuts(true)} title={`Keyboard Shortcuts${shortcutHint('showShortcuts')}`} className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-md transition-colors">
+                        <KeyboardIcon className="w-5 h-5" />
+                    </button>
+                    <button onClick={onNewVideo} className="flex items-center gap-2 px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+                        <UploadIcon className="w-4 h-4" /> Add Video
+                    </button>
+                </div>
             </div>
         </div>
       </div>
@@ -291,14 +1731,91 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, videoName, onNewVid
       {/* Steps Sidebar */}
       <StepsSidebar 
         steps={steps}
+        annotations={annotations}
         activeStepId={activeStepId}
+        duration={duration}
+        tempo={tempo}
         onAddStep={handleAddStep}
         onPlayStep={handlePlayStep}
         onDeleteStep={handleDeleteStep}
         onUpdateStepName={handleUpdateStepName}
+        onUpdateStepTimes={handleUpdateStepTimes}
         onSave={handleSaveSteps}
+        onExportMarkers={handleExportMarkers}
+        showStepLabels={showStepLabels}
+        onToggleStepLabels={() => setShowStepLabels(!showStepLabels)}
         onLoadSteps={handleLoadSteps}
-      />
+        onMoveStep={handleMoveStep}
+        onSortSteps={handleSortSteps}
+        onSetStepSection={handleSetStepSection}
+        collapsedSections={collapsedSections}
+        onToggleSection={handleToggleSection}
+        onRenameSection={handleRenameSection}
+        onPlaySection={handlePlaySection}
+        onUpdateStepDetails={handleUpdateStepDetails}
+        onExportStep={setExportingStep}
+      >
+        <ReviewQueuePanel
+          steps={steps}
+          queue={reviewQueue}
+          schedule={reviewSchedule}
+          today={today}
+          nextDue={nextDueDate(steps, reviewSchedule, today)}
+          run={reviewRun}
+          onStart={handleStartReview}
+          onStop={() => setReviewRun(null)}
+          onRate={handleRateReview}
+        />
+        <PlaylistPanel
+          items={playlist}
+          steps={steps}
+          run={playlistRun}
+          onChange={setPlaylist}
+          onStart={() => startPlaylist(playlist)}
+          onRunWholePiece={() => startPlaylist(wholePieceItems(steps, playbackRate))}
+          onStop={handleStopPlaylist}
+        />
+      </StepsSidebar>
+
+      {showShortcuts && (
+        <ShortcutsOverlay keymap={keymap} onChange={handleKeymapChange} onClose={closeShortcuts} />
+      )}
+      {showStats && (
+        <PracticeDashboard
+          stats={practiceStats}
+          steps={steps}
+          showHeatmap={showPracticeHeat}
+          onToggleHeatmap={() => setShowPracticeHeat(!showPracticeHeat)}
+          onPlayStep={handlePracticeStep}
+          onExportCsv={handleExportStats}
+          onClose={closeStats}
+        />
+      )}
+      {showSharePackage && (
+        <SharePackageDialog
+          videoUrl={videoUrl}
+          videoName={videoName}
+          videoSize={videoSize}
+          duration={duration}
+          fingerprint={fingerprint}
+          steps={steps}
+          annotations={annotations}
+          settings={{ playbackRate, isMirrored, tempo, snapToBeats, countIn, metronomeEnabled, trainerSettings, audioSettings, preservePitch }}
+          onClose={() => setShowSharePackage(false)}
+        />
+      )}
+      {exportingStep && (
+        <ClipExportDialog
+          step={exportingStep}
+          videoUrl={videoUrl}
+          videoName={videoName}
+          playbackRate={playbackRate}
+          isMirrored={isMirrored}
+          countIn={countIn}
+          beatSeconds={60 / (tempo?.bpm ?? DEFAULT_COUNT_IN_BPM)}
+          onClose={() => setExportingStep(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,401 @@
+import React, { useRef, useCallback, useEffect, useState } from 'react';
+import { Step } from './VideoPlayer';
+import { BeatMarker } from '../utils/tempo';
+import { Thumbnail } from '../utils/thumbnails';
+import { formatTime } from '../utils/formatTime';
+import { TwoFingerMode, classifyTwoFingerGesture } from '../utils/gestures';
+
+interface WaveformTimelineProps {
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+  loopStart: number;
+  loopEnd: number;
+  isLooping: boolean;
+  steps: Step[];
+  activeStepId: string | null;
+  beats: BeatMarker[];
+  peaks: Float32Array | null;
+  peaksPerSecond: number;
+  /** Set while the waveform is left unloaded; it's only decoded when asked for. */
+  onLoadPeaks?: () => void;
+  thumbnails: Thumbnail[];
+  isMirrored: boolean;
+  snapTime: (time: number) => number;
+  onPlayStep: (step: Step) => void;
+  onUpdateStepTimes: (id: string, start: number, end: number) => void;
+  onMoveLoop: (start: number, end: number) => void;
+}
+
+interface EdgeDrag {
+  stepId: string;
+  edge: 'start' | 'end';
+}
+
+/** A two-finger touch: pinch zooms the view, dragging together moves the loop window. */
+interface TwoFingerGesture {
+  pointerIds: [number, number];
+  startA: number;
+  startB: number;
+  mode: TwoFingerMode | null;
+  viewStart: number;
+  viewDuration: number;
+  loopStart: number;
+  loopEnd: number;
+}
+
+const MIN_VIEW_SECONDS = 1;
+const ZOOM_SENSITIVITY = 0.002;
+const THUMBNAIL_WIDTH = 64;
+const STEP_COLORS = ['bg-sky-500', 'bg-violet-500', 'bg-amber-500', 'bg-pink-500', 'bg-teal-500', 'bg-orange-500'];
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  currentTime,
+  duration,
+  isPlaying,
+  onSeek,
+  loopStart,
+  loopEnd,
+  isLooping,
+  steps,
+  activeStepId,
+  beats,
+  peaks,
+  peaksPerSecond,
+  onLoadPeaks,
+  thumbnails,
+  isMirrored,
+  snapTime,
+  onPlayStep,
+  onUpdateStepTimes,
+  onMoveLoop,
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [viewStart, setViewStart] = useState(0);
+  const [viewDuration, setViewDuration] = useState(0);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [edgeDrag, setEdgeDrag] = useState<EdgeDrag | null>(null);
+  const [activePointers, setActivePointers] = useState(0);
+  const pointersRef = useRef(new Map<number, number>());
+  const gestureRef = useRef<TwoFingerGesture | null>(null);
+
+  // Show the whole video whenever a new one loads.
+  useEffect(() => {
+    setViewStart(0);
+    setViewDuration(duration);
+  }, [duration]);
+
+  const clampView = useCallback((start: number, length: number) => {
+    const clampedLength = Math.min(duration, Math.max(Math.min(MIN_VIEW_SECONDS, duration), length));
+    const clampedStart = Math.min(Math.max(0, start), duration - clampedLength);
+    setViewStart(clampedStart);
+    setViewDuration(clampedLength);
+  }, [duration]);
+
+  useEffect(() => {
+    const track = trackRef.current;
+    if (!track) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(track);
+    return () => observer.disconnect();
+  }, []);
+
+  const timeToPercent = (time: number) => (viewDuration > 0 ? ((time - viewStart) / viewDuration) * 100 : 0);
+
+  const clientXToTime = useCallback((clientX: number) => {
+    if (!trackRef.current || viewDuration === 0) return 0;
+    const rect = trackRef.current.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return viewStart + fraction * viewDuration;
+  }, [viewStart, viewDuration]);
+
+  // Wheel zooms around the cursor; horizontal or shift+wheel scrolls.
+  useEffect(() => {
+    const track = trackRef.current;
+    if (!track) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (duration === 0) return;
+      e.preventDefault();
+      const horizontal = e.shiftKey ? e.deltaY : e.deltaX;
+      if (Math.abs(horizontal) > Math.abs(e.shiftKey ? 0 : e.deltaY)) {
+        clampView(viewStart + (horizontal / Math.max(1, width)) * viewDuration, viewDuration);
+        return;
+      }
+      const anchor = clientXToTime(e.clientX);
+      const nextDuration = viewDuration * Math.exp(e.deltaY * ZOOM_SENSITIVITY);
+      const fraction = viewDuration > 0 ? (anchor - viewStart) / viewDuration : 0;
+      clampView(anchor - fraction * nextDuration, nextDuration);
+    };
+    track.addEventListener('wheel', handleWheel, { passive: false });
+    return () => track.removeEventListener('wheel', handleWheel);
+  }, [duration, viewStart, viewDuration, width, clampView, clientXToTime]);
+
+  // Keep the playhead in view while playing.
+  useEffect(() => {
+    if (!isPlaying || viewDuration >= duration) return;
+    if (currentTime < viewStart || currentTime > viewStart + viewDuration) {
+      clampView(currentTime - viewDuration * 0.1, viewDuration);
+    }
+  }, [currentTime, isPlaying, viewStart, viewDuration, duration, clampView]);
+
+  // Waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(canvas.clientHeight * ratio);
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (!peaks || viewDuration === 0) return;
+
+    const middle = canvas.height / 2;
+    context.fillStyle = '#34d399';
+    for (let x = 0; x < canvas.width; x++) {
+      const from = Math.floor((viewStart + (x / canvas.width) * viewDuration) * peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor((viewStart + ((x + 1) / canvas.width) * viewDuration) * peaksPerSecond));
+      let peak = 0;
+      for (let i = from; i < to && i < peaks.length; i++) {
+        if (peaks[i] > peak) peak = peaks[i];
+      }
+      const height = Math.max(1, peak * canvas.height * 0.9);
+      context.fillRect(x, middle - height / 2, 1, height);
+    }
+  }, [peaks, peaksPerSecond, viewStart, viewDuration, width]);
+
+  // Scrubbing, step edge dragging and two-finger gestures
+  const applyGesture = useCallback((gesture: TwoFingerGesture) => {
+    const track = trackRef.current;
+    const a = pointersRef.current.get(gesture.pointerIds[0]);
+    const b = pointersRef.current.get(gesture.pointerIds[1]);
+    if (!track || a === undefined || b === undefined) return;
+    if (!gesture.mode) {
+      gesture.mode = classifyTwoFingerGesture(gesture.startA, gesture.startB, a, b);
+      if (!gesture.mode) return;
+    }
+
+    const rect = track.getBoundingClientRect();
+    const startMidpoint = (gesture.startA + gesture.startB) / 2;
+    const midpoint = (a + b) / 2;
+    if (gesture.mode === 'pinch') {
+      const anchor = gesture.viewStart + ((startMidpoint - rect.left) / rect.width) * gesture.viewDuration;
+      const spreadRatio = Math.max(1, Math.abs(gesture.startA - gesture.startB)) / Math.max(1, Math.abs(a - b));
+      const nextDuration = gesture.viewDuration * spreadRatio;
+      clampView(anchor - ((midpoint - rect.left) / rect.width) * nextDuration, nextDuration);
+    } else {
+      const shift = ((midpoint - startMidpoint) / rect.width) * gesture.viewDuration;
+      const length = gesture.loopEnd - gesture.loopStart;
+      const start = Math.min(Math.max(0, snapTime(gesture.loopStart + shift)), duration - length);
+      onMoveLoop(start, start + length);
+    }
+  }, [duration, clampView, snapTime, onMoveLoop]);
+
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, e.clientX);
+    if (gestureRef.current) {
+      applyGesture(gestureRef.current);
+      return;
+    }
+
+    const time = clientXToTime(e.clientX);
+    if (isScrubbing) {
+      onSeek(time);
+    } else if (edgeDrag) {
+      const step = steps.find(s => s.id === edgeDrag.stepId);
+      if (!step) return;
+      const snapped = snapTime(time);
+      if (edgeDrag.edge === 'start' && snapped < step.end) {
+        onUpdateStepTimes(step.id, snapped, step.end);
+      } else if (edgeDrag.edge === 'end' && snapped > step.start) {
+        onUpdateStepTimes(step.id, step.start, Math.min(snapped, duration));
+      }
+    }
+  }, [isScrubbing, edgeDrag, steps, duration, clientXToTime, snapTime, applyGesture, onSeek, onUpdateStepTimes]);
+
+  const handlePointerUp = useCallback((e: PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) {
+      gestureRef.current = null;
+    }
+    if (pointersRef.current.size === 0) {
+      setIsScrubbing(false);
+      setEdgeDrag(null);
+    }
+    setActivePointers(pointersRef.current.size);
+  }, []);
+
+  useEffect(() => {
+    if (activePointers > 0) {
+      document.addEventListener('pointermove', handlePointerMove);
+      document.addEventListener('pointerup', handlePointerUp);
+      document.addEventListener('pointercancel', handlePointerUp);
+    }
+    return () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [activePointers, handlePointerMove, handlePointerUp]);
+
+  // Every pointer is recorded in the capture phase, so a second finger can start
+  // a gesture even when it lands on a step block.
+  const handleTrackPointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.set(e.pointerId, e.clientX);
+    setActivePointers(pointersRef.current.size);
+    if (pointersRef.current.size === 2) {
+      const [[idA, startA], [idB, startB]] = [...pointersRef.current];
+      gestureRef.current = {
+        pointerIds: [idA, idB],
+        startA,
+        startB,
+        mode: null,
+        viewStart,
+        viewDuration,
+        loopStart,
+        loopEnd,
+      };
+      setIsScrubbing(false);
+      setEdgeDrag(null);
+    }
+  };
+
+  const handleTrackPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointersRef.current.size > 1) return;
+    onSeek(clientXToTime(e.clientX));
+    setIsScrubbing(true);
+  };
+
+  const startEdgeDrag = (e: React.PointerEvent<HTMLDivElement>, stepId: string, edge: EdgeDrag['edge']) => {
+    e.stopPropagation();
+    if (pointersRef.current.size > 1) return;
+    setEdgeDrag({ stepId, edge });
+  };
+
+  // One thumbnail slot per THUMBNAIL_WIDTH pixels, each showing the nearest grabbed frame.
+  const thumbnailSlots = thumbnails.length > 0 && width > 0
+    ? Array.from({ length: Math.ceil(width / THUMBNAIL_WIDTH) }, (_, slot) => {
+        const time = viewStart + ((slot + 0.5) * THUMBNAIL_WIDTH / width) * viewDuration;
+        return thumbnails.reduce((best, thumb) => (Math.abs(thumb.time - time) < Math.abs(best.time - time) ? thumb : best));
+      })
+    : [];
+
+  const viewEnd = viewStart + viewDuration;
+  const visibleSteps = steps.filter(step => step.end > viewStart && step.start < viewEnd);
+  const visibleBeats = beats.filter(beat => beat.time >= viewStart && beat.time <= viewEnd);
+  const showAllBeats = width > 0 && visibleBeats.length < width / 6;
+
+  return (
+    <div className="w-full select-none">
+      <div
+        ref={trackRef}
+        className="relative h-28 bg-gray-900 rounded-md overflow-hidden cursor-pointer touch-none"
+        onPointerDownCapture={handleTrackPointerDownCapture}
+        onPointerDown={handleTrackPointerDown}
+      >
+        {/* Thumbnails */}
+        <div className="absolute top-0 left-0 right-0 h-9 flex overflow-hidden opacity-70">
+          {thumbnailSlots.map((thumb, slot) => (
+            <img
+              key={slot}
+              src={thumb.url}
+              alt=""
+              draggable={false}
+              className={`h-full object-cover flex-shrink-0 ${isMirrored ? '-scale-x-100' : ''}`}
+              style={{ width: `${THUMBNAIL_WIDTH}px` }}
+            />
+          ))}
+        </div>
+
+        {/* Waveform */}
+        <canvas ref={canvasRef} className="absolute top-9 left-0 w-full h-12" />
+        {onLoadPeaks ? (
+          <div className="absolute top-9 left-0 right-0 h-12 flex items-center justify-center text-xs pointer-events-none">
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={onLoadPeaks}
+              title="Decode the soundtrack to draw the waveform; large videos take a while and a lot of memory"
+              className="px-2 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 pointer-events-auto"
+            >
+              Show waveform
+            </button>
+          </div>
+        ) : (!peaks || peaks.length === 0) && (
+          <div className="absolute top-9 left-0 right-0 h-12 flex items-center justify-center text-xs text-gray-600 pointer-events-none">
+            {peaks ? 'No audio waveform available' : 'Loading waveform…'}
+          </div>
+        )}
+
+        {/* Beat Grid */}
+        {visibleBeats.filter(beat => showAllBeats || beat.isDownbeat).map(beat => (
+          <div
+            key={beat.time}
+            className={`absolute top-9 h-12 w-px pointer-events-none ${beat.isDownbeat ? 'bg-gray-300/50' : 'bg-gray-500/30'}`}
+            style={{ left: `${timeToPercent(beat.time)}%` }}
+          />
+        ))}
+
+        {/* Loop Region */}
+        {isLooping && (
+          <div
+            className="absolute top-9 h-12 bg-emerald-500/20 border-x border-emerald-400/60 pointer-events-none"
+            style={{ left: `${timeToPercent(loopStart)}%`, width: `${timeToPercent(loopEnd) - timeToPercent(loopStart)}%` }}
+          />
+        )}
+
+        {/* Step Blocks */}
+        {visibleSteps.map(step => {
+          const colorIndex = steps.indexOf(step) % STEP_COLORS.length;
+          const isActive = step.id === activeStepId;
+          return (
+            <div
+              key={step.id}
+              className={`absolute bottom-1 h-5 rounded-sm text-[10px] leading-5 text-white px-1 ${STEP_COLORS[colorIndex]} ${isActive ? 'ring-2 ring-white' : 'opacity-80 hover:opacity-100'}`}
+              style={{ left: `${timeToPercent(step.start)}%`, width: `${timeToPercent(step.end) - timeToPercent(step.start)}%` }}
+              title={`${step.name} (${formatTime(step.start)} - ${formatTime(step.end)})`}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onPlayStep(step)}
+            >
+              <span className="block truncate">{step.name}</span>
+              <div
+                className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/40 hover:bg-white touch-target"
+                onPointerDown={(e) => startEdgeDrag(e, step.id, 'start')}
+                onClick={(e) => e.stopPropagation()}
+              />
+              <div
+                className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/40 hover:bg-white touch-target"
+                onPointerDown={(e) => startEdgeDrag(e, step.id, 'end')}
+                onClick={(e) => e.stopPropagation()}
+              />
+            </div>
+          );
+        })}
+
+        {/* Playhead */}
+        {currentTime >= viewStart && currentTime <= viewEnd && (
+          <div
+            className="absolute top-0 h-full w-0.5 bg-emerald-300 pointer-events-none"
+            style={{ left: `${timeToPercent(currentTime)}%` }}
+          />
+        )}
+      </div>
+      <div className="flex items-center justify-between mt-1 text-xs font-mono text-gray-500">
+        <span>{formatTime(viewStart)}</span>
+        <div className="flex items-center gap-1 font-sans">
+          <button onClick={() => clampView(currentTime - viewDuration / 4, viewDuration / 2)} title="Zoom in around the playhead" className="px-2 rounded hover:bg-gray-700">+</button>
+          <button onClick={() => clampView(currentTime - viewDuration, viewDuration * 2)} title="Zoom out" className="px-2 rounded hover:bg-gray-700">−</button>
+          <button onClick={() => clampView(loopStart, loopEnd - loopStart)} title="Zoom to the loop" className="px-2 rounded hover:bg-gray-700">Loop</button>
+          <button onClick={() => clampView(0, duration)} title="Show the whole video" className="px-2 rounded hover:bg-gray-700">Fit</button>
+          <span className="ml-1 text-gray-600">Scroll or pinch to zoom, Shift+scroll to pan, two fingers to move the loop</span>
+        </div>
+        <span>{formatTime(viewEnd)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
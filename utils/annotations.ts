@@ -0,0 +1,72 @@
+export type AnnotationKind = 'text' | 'arrow' | 'circle' | 'freehand';
+
+/** A point on the video frame, as fractions of its width and height (unmirrored). */
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  /** Shown while start <= currentTime < end. */
+  start: number;
+  end: number;
+  color: string;
+  /**
+   * text: [anchor]; arrow: [tail, head]; circle: [center, a point on the edge];
+   * freehand: the stroke in drawing order.
+   */
+  points: AnnotationPoint[];
+  text?: string;
+}
+
+export type AnnotationData = Omit<Annotation, 'id'>;
+
+export const ANNOTATION_KINDS: { value: AnnotationKind; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'freehand', label: 'Draw' },
+];
+
+export const ANNOTATION_COLORS = ['#facc15', '#f87171', '#34d399', '#60a5fa', '#ffffff'];
+export const DEFAULT_ANNOTATION_SECONDS = 2;
+
+// Freehand points closer than this (in frame fractions) are dropped while drawing.
+const MIN_STROKE_SPACING = 0.004;
+
+export const isAnnotationKind = (value: unknown): value is AnnotationKind =>
+  ANNOTATION_KINDS.some(kind => kind.value === value);
+
+/** Points each kind needs before it can be saved. */
+export const minimumPoints = (kind: AnnotationKind): number => (kind === 'text' ? 1 : 2);
+
+export const annotationLabel = (annotation: AnnotationData): string => {
+  if (annotation.kind === 'text') return annotation.text || 'Text';
+  return ANNOTATION_KINDS.find(kind => kind.value === annotation.kind)?.label ?? annotation.kind;
+};
+
+export const isAnnotationVisible = (annotation: AnnotationData, time: number): boolean =>
+  time >= annotation.start && time < annotation.end;
+
+export const createAnnotation = (data: AnnotationData): Annotation => ({
+  ...data,
+  id: new Date().toISOString() + `-${Math.random().toString(36).slice(2, 8)}`,
+});
+
+/** Adds a point to a freehand stroke unless it is too close to the last one. */
+export const extendStroke = (points: AnnotationPoint[], point: AnnotationPoint): AnnotationPoint[] => {
+  const last = points[points.length - 1];
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < MIN_STROKE_SPACING) return points;
+  return [...points, point];
+};
+
+export const clampPoint = (point: AnnotationPoint): AnnotationPoint => ({
+  x: Math.min(1, Math.max(0, point.x)),
+  y: Math.min(1, Math.max(0, point.y)),
+});
+
+/** Rounds points so saved files stay small; 1/10000 of the frame is far below a pixel. */
+export const roundPoints = (points: AnnotationPoint[]): AnnotationPoint[] =>
+  points.map(({ x, y }) => ({ x: Math.round(x * 10000) / 10000, y: Math.round(y * 10000) / 10000 }));
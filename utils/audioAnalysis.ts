@@ -0,0 +1,153 @@
+import { MIN_BPM, MAX_BPM } from './tempo';
+
+// Analysis runs on a low-rate mono copy of the soundtrack; beats live well below 5 kHz.
+const ANALYSIS_SAMPLE_RATE = 11025;
+const HOP_SIZE = 256;
+const KICK_CUTOFF_HZ = 150;
+// Tempo estimates are biased toward typical dance tempos to avoid half/double-time picks.
+const PREFERRED_BPM = 120;
+const PREFERENCE_WIDTH = 1.0;
+
+/** Decodes the audio track of a media file without playing it. */
+export const decodeAudio = async (source: Blob): Promise<AudioBuffer> => {
+  const data = await source.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  return context.decodeAudioData(data);
+};
+
+const renderLowpassed = async (buffer: AudioBuffer): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = KICK_CUTOFF_HZ;
+  source.connect(filter);
+  filter.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+};
+
+/** Half-wave rectified energy flux per hop, with the running mean removed. */
+const onsetEnvelope = (samples: Float32Array): Float32Array => {
+  const frames = Math.floor(samples.length / HOP_SIZE);
+  const envelope = new Float32Array(frames);
+  let previous = 0;
+  for (let frame = 0; frame < frames; frame++) {
+    let energy = 0;
+    for (let i = frame * HOP_SIZE; i < (frame + 1) * HOP_SIZE; i++) {
+      energy += samples[i] * samples[i];
+    }
+    const level = Math.log1p(energy * 100);
+    envelope[frame] = Math.max(0, level - previous);
+    previous = level;
+  }
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / Math.max(1, frames);
+  for (let frame = 0; frame < frames; frame++) {
+    envelope[frame] = Math.max(0, envelope[frame] - mean);
+  }
+  return envelope;
+};
+
+const envelopeAt = (envelope: Float32Array, position: number): number => {
+  const index = Math.round(position);
+  return index >= 0 && index < envelope.length ? envelope[index] : 0;
+};
+
+const estimateBeatPeriod = (envelope: Float32Array, framesPerSecond: number): number | null => {
+  const minLag = Math.floor(60 * framesPerSecond / MAX_BPM);
+  const maxLag = Math.ceil(60 * framesPerSecond / MIN_BPM);
+  const scores = new Float32Array(maxLag + 2);
+  let bestLag = -1;
+  // Neighbours of the searched range are scored too, for the interpolation below.
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < envelope.length; i++) {
+      sum += envelope[i] * envelope[i + lag];
+    }
+    const bpm = 60 * framesPerSecond / lag;
+    const preference = Math.exp(-0.5 * (Math.log2(bpm / PREFERRED_BPM) / PREFERENCE_WIDTH) ** 2);
+    scores[lag] = sum * preference;
+    if (lag >= minLag && lag <= maxLag && (bestLag < 0 || scores[lag] > scores[bestLag])) bestLag = lag;
+  }
+  if (bestLag < 0 || scores[bestLag] <= 0) return null;
+
+  // Parabolic interpolation around the peak for sub-frame precision.
+  const left = scores[bestLag - 1];
+  const right = scores[bestLag + 1];
+  const curvature = left - 2 * scores[bestLag] + right;
+  const shift = curvature < 0 ? 0.5 * (left - right) / curvature : 0;
+  return bestLag + Math.max(-0.5, Math.min(0.5, shift));
+};
+
+/**
+ * Estimates BPM and the time of a downbeat from a decoded soundtrack.
+ * Everything runs locally through OfflineAudioContext.
+ */
+export const detectTempo = async (
+  buffer: AudioBuffer,
+  beatsPerBar: number,
+): Promise<{ bpm: number; offset: number }> => {
+  const samples = await renderLowpassed(buffer);
+  const framesPerSecond = buffer.sampleRate / HOP_SIZE;
+  const envelope = onsetEnvelope(samples);
+
+  const period = estimateBeatPeriod(envelope, framesPerSecond);
+  if (period === null) {
+    throw new Error('No steady beat was found in the audio track.');
+  }
+  const beatCount = Math.floor(envelope.length / period);
+
+  // Beat phase: the offset whose beat positions collect the most onset energy.
+  let bestPhase = 0;
+  let bestPhaseScore = -1;
+  for (let phase = 0; phase < Math.ceil(period); phase++) {
+    let score = 0;
+    for (let beat = 0; beat < beatCount; beat++) {
+      score += envelopeAt(envelope, phase + beat * period);
+    }
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  // Downbeat: the beat within the bar that is accented most consistently.
+  let bestBeatInBar = 0;
+  let bestBarScore = -1;
+  for (let beatInBar = 0; beatInBar < beatsPerBar; beatInBar++) {
+    let score = 0;
+    for (let beat = beatInBar; beat < beatCount; beat += beatsPerBar) {
+      score += envelopeAt(envelope, bestPhase + beat * period);
+    }
+    if (score > bestBarScore) {
+      bestBarScore = score;
+      bestBeatInBar = beatInBar;
+    }
+  }
+
+  return {
+    bpm: Math.round(60 * framesPerSecond / period * 10) / 10,
+    offset: (bestPhase + bestBeatInBar * period) / framesPerSecond,
+  };
+};
+
+/** Peak absolute amplitude per bucket, normalised so the loudest bucket is 1. */
+export const computePeaks = (buffer: AudioBuffer, peaksPerSecond: number): Float32Array => {
+  const bucketSize = Math.max(1, Math.floor(buffer.sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(buffer.length / bucketSize));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      const bucket = Math.floor(i / bucketSize);
+      const amplitude = Math.abs(samples[i]);
+      if (amplitude > peaks[bucket]) peaks[bucket] = amplitude;
+    }
+  }
+  const loudest = peaks.reduce((max, value) => Math.max(max, value), 0);
+  if (loudest > 0) {
+    for (let i = 0; i < peaks.length; i++) peaks[i] /= loudest;
+  }
+  return peaks;
+};
@@ -0,0 +1,161 @@
+import { getAudioContext } from './clickSynth';
+
+type PitchAwareMediaElement = HTMLMediaElement & {
+  webkitPreservesPitch?: boolean;
+  mozPreservesPitch?: boolean;
+};
+
+export const supportsNativePitchPreservation = (media: HTMLMediaElement): boolean =>
+  'preservesPitch' in media || 'webkitPreservesPitch' in media || 'mozPreservesPitch' in media;
+
+export const setNativePreservesPitch = (media: HTMLMediaElement, preserve: boolean): void => {
+  const element = media as PitchAwareMediaElement;
+  if ('preservesPitch' in element) element.preservesPitch = preserve;
+  if ('webkitPreservesPitch' in element) element.webkitPreservesPitch = preserve;
+  if ('mozPreservesPitch' in element) element.mozPreservesPitch = preserve;
+};
+
+/*
+ * Delay-line pitch shifter used when the browser can't keep pitch itself:
+ * two read heads sweep through a short delay buffer half a window apart and
+ * are crossfaded with complementary sin² windows.
+ */
+const PITCH_SHIFTER_NAME = 'pitch-shifter';
+const PITCH_SHIFTER_SOURCE = `
+class PitchShifter extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'pitchRatio', defaultValue: 1, minValue: 0.25, maxValue: 4 }];
+  }
+
+  constructor() {
+    super();
+    this.windowSize = Math.round(sampleRate * 0.05);
+    this.bufferSize = this.windowSize * 2;
+    this.buffers = [];
+    this.writeIndex = 0;
+    this.phase = 0;
+  }
+
+  read(buffer, delay) {
+    let position = this.writeIndex - delay;
+    while (position < 0) position += this.bufferSize;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const next = (index + 1) % this.bufferSize;
+    return buffer[index] * (1 - fraction) + buffer[next] * fraction;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ratio = parameters.pitchRatio[0];
+    for (let channel = 0; channel < output.length; channel++) {
+      if (!this.buffers[channel]) this.buffers[channel] = new Float32Array(this.bufferSize);
+    }
+    for (let i = 0; i < output[0].length; i++) {
+      const phaseB = (this.phase + 0.5) % 1;
+      const gainA = Math.sin(Math.PI * this.phase) ** 2;
+      const gainB = Math.sin(Math.PI * phaseB) ** 2;
+      for (let channel = 0; channel < output.length; channel++) {
+        const buffer = this.buffers[channel];
+        buffer[this.writeIndex] = input[channel] ? input[channel][i] : 0;
+        output[channel][i] =
+          this.read(buffer, this.phase * this.windowSize) * gainA +
+          this.read(buffer, phaseB * this.windowSize) * gainB;
+      }
+      this.writeIndex = (this.writeIndex + 1) % this.bufferSize;
+      this.phase = (this.phase + (1 - ratio) / this.windowSize + 1) % 1;
+    }
+    return true;
+  }
+}
+registerProcessor('${PITCH_SHIFTER_NAME}', PitchShifter);
+`;
+
+export interface MediaAudioGraph {
+  /** Pitch multiplier applied on top of the element's output; 1 bypasses the shifter. */
+  setPitchRatio: (ratio: number) => void;
+  setGain: (gain: number) => void;
+}
+
+// createMediaElementSource may only be called once per element, so graphs are cached.
+const graphs = new WeakMap<HTMLMediaElement, Promise<MediaAudioGraph>>();
+let workletReady: Promise<void> | null = null;
+
+const loadPitchShifter = (context: AudioContext): Promise<void> => {
+  if (!workletReady) {
+    const url = URL.createObjectURL(new Blob([PITCH_SHIFTER_SOURCE], { type: 'application/javascript' }));
+    workletReady = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+  }
+  return workletReady;
+};
+
+const buildGraph = async (media: HTMLMediaElement): Promise<MediaAudioGraph> => {
+  const context = getAudioContext();
+  const source = context.createMediaElementSource(media);
+  const gain = context.createGain();
+  gain.connect(context.destination);
+  source.connect(gain);
+
+  let shifter: AudioWorkletNode | null = null;
+  let shifting = false;
+  let requestedRatio = 1;
+
+  const applyPitchRatio = () => {
+    const shouldShift = Math.abs(requestedRatio - 1) > 0.001;
+    if (!shifter) {
+      if (!shouldShift) return;
+      // The worklet loads asynchronously; apply the latest ratio once it's ready.
+      loadPitchShifter(context)
+        .then(() => {
+          if (!shifter) {
+            shifter = new AudioWorkletNode(context, PITCH_SHIFTER_NAME, { outputChannelCount: [2] });
+            shifter.connect(gain);
+          }
+          applyPitchRatio();
+        })
+        .catch(error => console.error('Pitch shifter unavailable', error));
+      return;
+    }
+    shifter.parameters.get('pitchRatio')?.setValueAtTime(shouldShift ? requestedRatio : 1, context.currentTime);
+    if (shouldShift !== shifting) {
+      source.disconnect();
+      source.connect(shouldShift ? shifter : gain);
+      shifting = shouldShift;
+    }
+  };
+
+  return {
+    setPitchRatio: (ratio: number) => {
+      requestedRatio = ratio;
+      applyPitchRatio();
+    },
+    setGain: (value: number) => {
+      gain.gain.setTargetAtTime(value, context.currentTime, 0.02);
+    },
+  };
+};
+
+/**
+ * Routes the element's audio through Web Audio. Once routed, the element's
+ * sound always plays through the shared AudioContext, so only call this when
+ * a feature actually needs it.
+ */
+export const getMediaAudioGraph = (media: HTMLMediaElement): Promise<MediaAudioGraph> => {
+  let graph = graphs.get(media);
+  if (!graph) {
+    graph = buildGraph(media);
+    graphs.set(media, graph);
+  }
+  return graph;
+};
+
+export const hasMediaAudioGraph = (media: HTMLMediaElement): boolean => graphs.has(media);
+
+/**
+ * A routed element is silent while the shared context is suspended, which it
+ * is until a user gesture resumes it; call this whenever playback starts.
+ */
+export const resumeMediaAudio = (media: HTMLMediaElement): void => {
+  if (graphs.has(media)) getAudioContext();
+};
@@ -0,0 +1,49 @@
+// One shared context: browsers limit how many can exist and each needs a user gesture to start.
+let sharedContext: AudioContext | null = null;
+
+export const getAudioContext = (): AudioContext => {
+  if (!sharedContext) {
+    sharedContext = new AudioContext();
+  }
+  if (sharedContext.state === 'suspended') {
+    sharedContext.resume().catch(console.error);
+  }
+  return sharedContext;
+};
+
+const CLICK_LENGTH = 0.05;
+
+/**
+ * Schedules a short synthesized click at `when` (AudioContext time). Accented
+ * clicks are higher and louder. Returns the source so it can be cancelled.
+ */
+export const scheduleClick = (
+  context: BaseAudioContext,
+  when: number,
+  accent: boolean,
+  volume = 0.6,
+  destination: AudioNode = context.destination,
+): OscillatorNode => {
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.frequency.value = accent ? 1600 : 1000;
+  const peak = accent ? volume : volume * 0.6;
+  gain.gain.setValueAtTime(0.0001, when);
+  gain.gain.exponentialRampToValueAtTime(peak, when + 0.002);
+  gain.gain.exponentialRampToValueAtTime(0.0001, when + CLICK_LENGTH);
+  oscillator.connect(gain);
+  gain.connect(destination);
+  oscillator.start(when);
+  oscillator.stop(when + CLICK_LENGTH);
+  return oscillator;
+};
+
+export const cancelClicks = (clicks: OscillatorNode[]): void => {
+  for (const click of clicks) {
+    try {
+      click.stop();
+    } catch {
+      // Already finished.
+    }
+  }
+};
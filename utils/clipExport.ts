@@ -0,0 +1,283 @@
+import { getAudioContext, scheduleClick, cancelClicks } from './clickSynth';
+import { setNativePreservesPitch } from './audioGraph';
+import { captureFrame, drawVideoFrame } from './frameSnapshot';
+import { pickRecordingType } from './takeRecorder';
+import { countInLabels } from './tempo';
+import { formatTime } from './formatTime';
+import { waitFor } from './thumbnails';
+
+export interface ClipExportOptions {
+  start: number;
+  end: number;
+  rate: number;
+  mirrored: boolean;
+  repeats: number;
+  /** Beats counted in before each repetition; 0 for none. */
+  countInBeats: number;
+  countInClicks: boolean;
+  /** Length of one count-in beat at normal speed. */
+  beatSeconds: number;
+}
+
+export const MAX_CLIP_REPEATS = 20;
+export const MIN_STRIP_FRAMES = 2;
+export const MAX_STRIP_FRAMES = 12;
+
+const CLIP_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const CLIP_FRAME_RATE = 30;
+const CLICK_LEAD_SECONDS = 0.05;
+const STRIP_FRAME_HEIGHT = 240;
+const STRIP_GAP = 4;
+
+export const supportsClipExport = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+// Count-in beats follow the clip's speed, as they do in the player.
+const beatLength = (options: ClipExportOptions): number => options.beatSeconds / options.rate;
+
+/** Running time of the exported clip in seconds. */
+export const clipLengthSeconds = (options: ClipExportOptions): number =>
+  options.repeats * (options.countInBeats * beatLength(options) + (options.end - options.start) / options.rate);
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw abortError();
+};
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      window.clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = window.setTimeout(() => {
+      signal.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', handleAbort, { once: true });
+  });
+
+const seekTo = async (video: HTMLVideoElement, time: number): Promise<void> => {
+  const seeked = waitFor(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
+
+/** Plays from the current position and pauses once `end` is reached. */
+const playUntil = (video: HTMLVideoElement, end: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let frame = 0;
+    const settle = (error?: unknown) => {
+      window.cancelAnimationFrame(frame);
+      signal.removeEventListener('abort', handleAbort);
+      video.pause();
+      if (error) reject(error); else resolve();
+    };
+    const handleAbort = () => settle(abortError());
+    // Polled every frame rather than on timeupdate, which can overshoot the end by a quarter second.
+    const poll = () => {
+      if (video.currentTime >= end || video.ended) {
+        settle();
+      } else {
+        frame = window.requestAnimationFrame(poll);
+      }
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+    video.play().then(poll, settle);
+  });
+
+const drawCountInLabel = (canvas: HTMLCanvasElement, label: string) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  context.save();
+  context.fillStyle = 'rgba(0, 0, 0, 0.4)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.font = `bold ${Math.round(canvas.height / 4)}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillStyle = '#ffffff';
+  context.fillText(label, canvas.width / 2, canvas.height / 2);
+  context.restore();
+};
+
+const loadHiddenVideo = async (videoUrl: string, muted: boolean): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = muted;
+  video.preload = 'auto';
+  video.playsInline = true;
+  const loaded = waitFor(video, 'loadeddata');
+  video.src = videoUrl;
+  await loaded;
+  return video;
+};
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  video.removeAttribute('src');
+  video.load();
+};
+
+/**
+ * Renders the range into a video file in real time: a hidden copy of the video
+ * plays through a canvas (for mirroring and the count-in) while a MediaRecorder
+ * captures the canvas and the soundtrack. The recorder is paused during seeks
+ * so repetitions join without frozen frames.
+ */
+export const renderClip = async (
+  videoUrl: string,
+  options: ClipExportOptions,
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal,
+): Promise<Blob> => {
+  const video = await loadHiddenVideo(videoUrl, false);
+  const audioContext = getAudioContext();
+  const audioOut = audioContext.createMediaStreamDestination();
+  const source = audioContext.createMediaElementSource(video);
+  source.connect(audioOut);
+  const canvas = document.createElement('canvas');
+  const stream = canvas.captureStream(CLIP_FRAME_RATE);
+  audioOut.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+  const mimeType = pickRecordingType(CLIP_TYPES);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const total = clipLengthSeconds(options);
+  let recordedSeconds = 0;
+  let label: string | null = null;
+  let frame = 0;
+  let lastFrameAt = performance.now();
+  const render = (now: number) => {
+    if (recorder.state === 'recording') {
+      recordedSeconds += (now - lastFrameAt) / 1000;
+      onProgress(Math.min(1, recordedSeconds / total));
+    }
+    lastFrameAt = now;
+    drawVideoFrame(video, canvas, options.mirrored);
+    if (label) drawCountInLabel(canvas, label);
+    frame = window.requestAnimationFrame(render);
+  };
+  let clicks: OscillatorNode[] = [];
+
+  try {
+    video.playbackRate = options.rate;
+    setNativePreservesPitch(video, true);
+    drawVideoFrame(video, canvas, options.mirrored);
+    frame = window.requestAnimationFrame(render);
+
+    for (let rep = 0; rep < options.repeats; rep++) {
+      throwIfAborted(signal);
+      if (recorder.state === 'recording') recorder.pause();
+      await seekTo(video, options.start);
+      throwIfAborted(signal);
+      if (recorder.state === 'inactive') recorder.start(); else recorder.resume();
+
+      if (options.countInBeats > 0) {
+        const beat = beatLength(options);
+        const labels = countInLabels(options.countInBeats);
+        const startAt = audioContext.currentTime + CLICK_LEAD_SECONDS;
+        clicks = options.countInClicks
+          ? labels.map((_, i) => scheduleClick(audioContext, startAt + i * beat, i === 0, 0.6, audioOut))
+          : [];
+        await sleep(CLICK_LEAD_SECONDS * 1000, signal);
+        for (const next of labels) {
+          label = next;
+          await sleep(beat * 1000, signal);
+        }
+        label = null;
+      }
+      await playUntil(video, options.end, signal);
+    }
+
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+    recorder.stop();
+    await stopped;
+    onProgress(1);
+    return new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' });
+  } finally {
+    window.cancelAnimationFrame(frame);
+    cancelClicks(clicks);
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    source.disconnect();
+    releaseVideo(video);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode the image.'));
+      }
+    }, 'image/png');
+  });
+
+/** A full-size PNG of the frame at `time`. */
+export const renderStillFrame = async (videoUrl: string, time: number, mirrored: boolean): Promise<Blob> => {
+  const video = await loadHiddenVideo(videoUrl, true);
+  try {
+    await seekTo(video, time);
+    return await captureFrame(video, mirrored);
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+/** Evenly spaced frames from start to end side by side in one PNG, each stamped with its time. */
+export const renderImageStrip = async (
+  videoUrl: string,
+  start: number,
+  end: number,
+  frames: number,
+  mirrored: boolean,
+): Promise<Blob> => {
+  const video = await loadHiddenVideo(videoUrl, true);
+  try {
+    const height = Math.min(STRIP_FRAME_HEIGHT, video.videoHeight);
+    const width = Math.round(height * (video.videoWidth / video.videoHeight || 16 / 9));
+    const canvas = document.createElement('canvas');
+    canvas.width = frames * width + (frames - 1) * STRIP_GAP;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas drawing is not available.');
+    context.fillStyle = '#111827';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.font = `bold ${Math.max(12, Math.round(height / 12))}px monospace`;
+    context.textBaseline = 'bottom';
+
+    // Stop just short of the end so the last frame still belongs to the step.
+    const last = Math.max(start, end - 0.05);
+    for (let i = 0; i < frames; i++) {
+      const time = start + ((last - start) * i) / (frames - 1);
+      await seekTo(video, time);
+      const x = i * (width + STRIP_GAP);
+      context.save();
+      if (mirrored) {
+        context.translate(x + width, 0);
+        context.scale(-1, 1);
+        context.drawImage(video, 0, 0, width, height);
+      } else {
+        context.drawImage(video, x, 0, width, height);
+      }
+      context.restore();
+      context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      context.fillText(formatTime(time), x + 7, height - 5);
+      context.fillStyle = '#ffffff';
+      context.fillText(formatTime(time), x + 6, height - 6);
+    }
+    return await canvasToBlob(canvas);
+  } finally {
+    releaseVideo(video);
+  }
+};
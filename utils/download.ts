@@ -0,0 +1,13 @@
+/** Turns a video file name into a safe prefix for exported files. */
+export const fileBaseName = (videoName: string): string =>
+  videoName.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_');
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', url);
+  linkElement.setAttribute('download', fileName);
+  linkElement.click();
+  // Give the browser a moment to start the download before releasing the blob.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,59 @@
+export interface HistoryEntry<T> {
+  /** What the edit did, e.g. "Delete step", for the undo/redo button titles. */
+  label: string;
+  /** State to restore: before the edit in `past`, after it in `future`. */
+  snapshot: T;
+  at: number;
+}
+
+export interface EditHistory<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export const MAX_HISTORY = 100;
+// Edits of the same kind this close together, like one handle drag, undo as one.
+const COALESCE_MS = 1000;
+
+export const emptyHistory = <T>(): EditHistory<T> => ({ past: [], future: [] });
+
+/** Records `before` as the state to return to; a new edit clears the redo stack. */
+export const recordEdit = <T>(history: EditHistory<T>, label: string, before: T, at: number): EditHistory<T> => {
+  const last = history.past[history.past.length - 1];
+  if (last && last.label === label && at - last.at < COALESCE_MS && history.future.length === 0) {
+    return { past: [...history.past.slice(0, -1), { ...last, at }], future: [] };
+  }
+  return { past: [...history.past, { label, snapshot: before, at }].slice(-MAX_HISTORY), future: [] };
+};
+
+/** Steps back one edit, keeping `current` so it can be redone. Null when there is nothing to undo. */
+export const undoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; snapshot: T } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...entry, snapshot: current }],
+    },
+    snapshot: entry.snapshot,
+  };
+};
+
+export const redoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; snapshot: T } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      // Never coalesce a later edit into one that was redone.
+      past: [...history.past, { ...entry, snapshot: current, at: 0 }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+  };
+};
+
+export const undoLabel = <T>(history: EditHistory<T>): string | null =>
+  history.past[history.past.length - 1]?.label ?? null;
+
+export const redoLabel = <T>(history: EditHistory<T>): string | null =>
+  history.future[history.future.length - 1]?.label ?? null;
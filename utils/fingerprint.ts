@@ -0,0 +1,13 @@
+// Only the head of the file is hashed so fingerprinting stays fast for large videos.
+const HASH_BYTES = 4 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export const fingerprintFile = async (file: File): Promise<string> => {
+  const head = await file.slice(0, HASH_BYTES).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', head);
+  return `${file.name}:${file.size}:${toHex(digest)}`;
+};
@@ -0,0 +1,12 @@
+const UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/** "1.2 MB"-style sizes, using 1024-byte units. */
+export const formatBytes = (bytes: number): string => {
+  let value = Math.max(0, bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`;
+};
@@ -14,3 +14,23 @@ export const formatTime = (timeInSeconds: number): string => {
 
   return `${formattedMinutes}:${formattedSeconds}.${formattedCentiseconds}`;
 };
+
+/**
+ * Parses a time typed by the user: the `mm:ss.cc` format produced by
+ * `formatTime`, `hh:mm:ss.mmm`, or plain seconds. Returns null if unparseable.
+ */
+export const parseTime = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!/^\d+(:\d{1,2}){0,2}([.,]\d+)?$/.test(trimmed)) {
+    return null;
+  }
+
+  const [whole, fraction = ''] = trimmed.replace(',', '.').split('.');
+  const parts = whole.split(':').map(Number);
+  if (parts.slice(1).some(part => part >= 60)) {
+    return null;
+  }
+
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return fraction ? seconds + Number(`0.${fraction}`) : seconds;
+};
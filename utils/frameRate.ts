@@ -0,0 +1,61 @@
+export const DEFAULT_FRAME_RATE = 30;
+
+// Common video frame rates; measurements are snapped to the closest one.
+const KNOWN_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 120];
+const SAMPLE_FRAMES = 20;
+
+const snapFrameRate = (fps: number): number => {
+  const closest = KNOWN_FRAME_RATES.reduce((best, rate) =>
+    Math.abs(rate - fps) < Math.abs(best - fps) ? rate : best
+  );
+  return Math.abs(closest - fps) / fps < 0.03 ? closest : Math.round(fps * 100) / 100;
+};
+
+/**
+ * Learns the real frame rate of a video from the media times of presented
+ * frames (requestVideoFrameCallback). Frames are only presented while playing
+ * or after seeks, so the estimate arrives once enough have been seen.
+ * Returns a function that stops watching.
+ */
+export const watchFrameRate = (
+  video: HTMLVideoElement,
+  onEstimate: (fps: number) => void,
+): (() => void) => {
+  if (!('requestVideoFrameCallback' in video)) {
+    return () => {};
+  }
+
+  let handle = 0;
+  let previousMediaTime: number | null = null;
+  const intervals: number[] = [];
+
+  const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+    if (previousMediaTime !== null) {
+      const interval = metadata.mediaTime - previousMediaTime;
+      // Skip seeks, loop wraps and dropped frames; they show up as odd gaps.
+      if (interval > 0 && interval < 0.1) intervals.push(interval);
+    }
+    previousMediaTime = metadata.mediaTime;
+
+    if (intervals.length >= SAMPLE_FRAMES) {
+      // The smallest common gap is one frame; larger ones are drops at high playback rates.
+      const sorted = [...intervals].sort((a, b) => a - b);
+      const frameDuration = sorted[Math.floor(sorted.length / 4)];
+      onEstimate(snapFrameRate(1 / frameDuration));
+      return;
+    }
+    handle = video.requestVideoFrameCallback(onFrame);
+  };
+
+  handle = video.requestVideoFrameCallback(onFrame);
+  return () => video.cancelVideoFrameCallback(handle);
+};
+
+/**
+ * Time of the frame `offset` frames away from `time`. Lands in the middle of
+ * the target frame so rounding in the decoder can't pick its neighbour.
+ */
+export const frameStepTime = (time: number, offset: number, fps: number): number => {
+  const frame = Math.floor(time * fps + 1e-3) + offset;
+  return Math.max(0, (frame + 0.5) / fps);
+};
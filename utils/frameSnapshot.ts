@@ -0,0 +1,39 @@
+/**
+ * Draws the video's current frame onto a canvas, flipped horizontally when
+ * mirrored so the snapshot matches what is shown on screen.
+ */
+export const drawVideoFrame = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  mirrored: boolean,
+): void => {
+  // Resizing clears and reallocates the canvas, which adds up when drawing every frame.
+  if (canvas.width !== video.videoWidth) canvas.width = video.videoWidth;
+  if (canvas.height !== video.videoHeight) canvas.height = video.videoHeight;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  context.save();
+  if (mirrored) {
+    context.translate(canvas.width, 0);
+    context.scale(-1, 1);
+  }
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  context.restore();
+};
+
+export const captureFrame = (video: HTMLVideoElement, mirrored: boolean): Promise<Blob> => {
+  if (video.videoWidth === 0 || video.videoHeight === 0) {
+    return Promise.reject(new Error('The video has no frame to capture yet.'));
+  }
+  const canvas = document.createElement('canvas');
+  drawVideoFrame(video, canvas, mirrored);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode the captured frame.'));
+      }
+    }, 'image/png');
+  });
+};
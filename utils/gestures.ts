@@ -0,0 +1,21 @@
+export type TwoFingerMode = 'pinch' | 'pan';
+
+// Fingers must move this far before a two-finger gesture commits to a mode.
+const GESTURE_THRESHOLD_PX = 16;
+
+/**
+ * Decides whether two fingers are pinching (spread changes) or dragging
+ * together (midpoint moves). Only horizontal positions matter on a timeline.
+ * Returns null while the movement is still too small to tell.
+ */
+export const classifyTwoFingerGesture = (
+  startA: number,
+  startB: number,
+  currentA: number,
+  currentB: number,
+): TwoFingerMode | null => {
+  const spreadChange = Math.abs(Math.abs(currentA - currentB) - Math.abs(startA - startB));
+  const midpointShift = Math.abs((currentA + currentB) / 2 - (startA + startB) / 2);
+  if (spreadChange < GESTURE_THRESHOLD_PX && midpointShift < GESTURE_THRESHOLD_PX) return null;
+  return spreadChange >= midpointShift ? 'pinch' : 'pan';
+};
@@ -0,0 +1,190 @@
+import type { Step } from '../components/VideoPlayer';
+import { parseTime } from './formatTime';
+import { STEPS_FILE_FORMAT, STEPS_FILE_VERSION, StepsParseResult, parseStepsDocument } from './stepsFile';
+
+/** Formats other tools use for sections: WebVTT chapters, SRT subtitles and a name,start,end spreadsheet. */
+export type MarkerFormat = 'vtt' | 'srt' | 'csv';
+
+export const MARKER_FORMATS: { value: MarkerFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'vtt', label: 'WebVTT chapters', extension: 'vtt', mimeType: 'text/vtt' },
+  { value: 'srt', label: 'SRT subtitles', extension: 'srt', mimeType: 'application/x-subrip' },
+  { value: 'csv', label: 'CSV (name,start,end)', extension: 'csv', mimeType: 'text/csv' },
+];
+
+export const markerFormatFromName = (fileName: string): MarkerFormat | null => {
+  const extension = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  return MARKER_FORMATS.find(format => format.extension === extension)?.value ?? null;
+};
+
+/** `hh:mm:ss.mmm`, or with a comma before the milliseconds as SRT requires. */
+export const formatCueTime = (seconds: number, separator: '.' | ',' = '.'): string => {
+  const millis = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(millis / 3600000);
+  const minutes = Math.floor((millis % 3600000) / 60000);
+  const secs = Math.floor((millis % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis % 1000, 3)}`;
+};
+
+// Cue text ends at a blank line, so names are kept to one line.
+const singleLine = (text: string): string => text.replace(/\s*\n\s*/g, ' ').trim();
+
+const csvField = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Steps in the given format, in video order. */
+export const stepsToMarkers = (steps: Step[], format: MarkerFormat): string => {
+  const ordered = [...steps].sort((a, b) => a.start - b.start || a.end - b.end);
+  switch (format) {
+    case 'vtt':
+      return ['WEBVTT', ...ordered.map((step, index) =>
+        `${index + 1}\n${formatCueTime(step.start)} --> ${formatCueTime(step.end)}\n${singleLine(step.name)}`
+      )].join('\n\n') + '\n';
+    case 'srt':
+      return ordered.map((step, index) =>
+        `${index + 1}\n${formatCueTime(step.start, ',')} --> ${formatCueTime(step.end, ',')}\n${singleLine(step.name)}`
+      ).join('\n\n') + '\n';
+    case 'csv':
+      return [
+        'name,start,end',
+        ...ordered.map(step => [singleLine(step.name), formatCueTime(step.start), formatCueTime(step.end)].map(csvField).join(',')),
+      ].join('\n') + '\n';
+  }
+};
+
+interface Marker {
+  name: string;
+  start: number;
+  end: number;
+}
+
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)/;
+
+/** Shared by WebVTT and SRT: blocks separated by blank lines, each with a timing line and text after it. */
+const parseCueBlocks = (blocks: string[], errors: string[]): Marker[] => {
+  const markers: Marker[] = [];
+  blocks.forEach((block, index) => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) return;
+    const timing = lines[timingIndex].trim().match(TIMING_LINE);
+    const start = timing ? parseTime(timing[1]) : null;
+    const end = timing ? parseTime(timing[2]) : null;
+    if (start === null || end === null) {
+      errors.push(`Cue ${index + 1}: could not read the times in "${lines[timingIndex].trim()}".`);
+      return;
+    }
+    // Formatting tags like <b> or {\i1} aren't part of the label.
+    const name = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]*>|\{[^}]*\}/g, '').trim();
+    markers.push({ name, start, end });
+  });
+  return markers;
+};
+
+const splitBlocks = (text: string): string[] =>
+  text.split(/\n\s*\n/).map(block => block.trim()).filter(block => block !== '');
+
+const parseVtt = (text: string, errors: string[]): Marker[] => {
+  const [header, ...blocks] = splitBlocks(text);
+  if (!header?.startsWith('WEBVTT')) {
+    errors.push('This is not a WebVTT file: it must start with "WEBVTT".');
+    return [];
+  }
+  // The header block may itself hold the first cue if there was no blank line after it.
+  const cues = header.includes('-->') ? [header.split('\n').slice(1).join('\n'), ...blocks] : blocks;
+  return parseCueBlocks(cues.filter(block => !/^(NOTE|STYLE|REGION)\b/.test(block)), errors);
+};
+
+/** Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and line breaks. */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const NAME_HEADERS = ['name', 'title', 'label', 'step', 'marker'];
+const START_HEADERS = ['start', 'in', 'from', 'begin'];
+const END_HEADERS = ['end', 'out', 'to', 'stop'];
+
+const parseCsv = (text: string, errors: string[]): Marker[] => {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+
+  // A header row picks the columns by name; without one they are name,start,end.
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const column = (names: string[], fallback: number) => {
+    const index = header.findIndex(cell => names.includes(cell));
+    return index >= 0 ? index : fallback;
+  };
+  const hasHeader = header.some(cell => [...NAME_HEADERS, ...START_HEADERS, ...END_HEADERS].includes(cell));
+  const nameColumn = hasHeader ? column(NAME_HEADERS, 0) : 0;
+  const startColumn = hasHeader ? column(START_HEADERS, 1) : 1;
+  const endColumn = hasHeader ? column(END_HEADERS, 2) : 2;
+
+  const markers: Marker[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    const start = parseTime(cells[startColumn] ?? '');
+    const end = parseTime(cells[endColumn] ?? '');
+    if (start === null || end === null) {
+      errors.push(`Row ${rowNumber}: start and end must be times like 01:02.50, 00:01:02.500 or 62.5.`);
+      return;
+    }
+    markers.push({ name: (cells[nameColumn] ?? '').trim(), start, end });
+  });
+  return markers;
+};
+
+/**
+ * Reads steps from a marker file and validates them like a steps JSON file, so
+ * the import flow (errors, duration warnings, replace or merge) is the same.
+ */
+export const parseMarkers = (text: string, format: MarkerFormat, duration: number): StepsParseResult => {
+  const errors: string[] = [];
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const markers = format === 'vtt'
+    ? parseVtt(normalized, errors)
+    : format === 'srt'
+      ? parseCueBlocks(splitBlocks(normalized), errors)
+      : parseCsv(normalized, errors);
+  if (errors.length > 0) return { document: null, errors, warnings: [] };
+
+  const result = parseStepsDocument({
+    format: STEPS_FILE_FORMAT,
+    version: STEPS_FILE_VERSION,
+    video: { name: '', duration: 0, fingerprint: null },
+    steps: markers.map((marker, index) => ({ ...marker, name: marker.name || `Step ${index + 1}` })),
+    metadata: { createdAt: '' },
+  }, duration);
+  return {
+    ...result,
+    warnings: [...result.warnings, 'Marker files carry no video information; check that the steps line up with this video.'],
+  };
+};
@@ -0,0 +1,75 @@
+export type PlaybackStatus = 'loading' | 'ready' | 'playing' | 'paused' | 'buffering' | 'error';
+
+/**
+ * Media element events that move the playback status. `stalled` is left out:
+ * it only means the download paused, and playback from the buffer carries on
+ * with no `playing` event to follow. A stall that starves playback fires `waiting`.
+ */
+export const PLAYBACK_EVENTS = [
+  'loadstart',
+  'loadeddata',
+  'canplay',
+  'play',
+  'playing',
+  'pause',
+  'waiting',
+  'seeked',
+  'ended',
+  'error',
+] as const;
+
+export type PlaybackEvent = typeof PLAYBACK_EVENTS[number];
+
+/**
+ * The status after a media event. `paused` is the element's own flag when the
+ * event fires, which is what decides between waiting-to-play and at-rest.
+ * Errors stick until a new load starts.
+ */
+export const nextPlaybackStatus = (status: PlaybackStatus, event: PlaybackEvent, paused: boolean): PlaybackStatus => {
+  if (event === 'loadstart') return 'loading';
+  if (event === 'error') return 'error';
+  if (status === 'error') return status;
+
+  switch (event) {
+    case 'loadeddata':
+    case 'canplay':
+      if (status === 'loading') return paused ? 'ready' : 'buffering';
+      return status === 'buffering' && paused ? 'paused' : status;
+    case 'play':
+      return status === 'loading' ? status : 'buffering';
+    case 'playing':
+      return 'playing';
+    case 'waiting':
+      return paused ? status : 'buffering';
+    case 'pause':
+    case 'ended':
+      return paused && status !== 'loading' ? 'paused' : status;
+    case 'seeked':
+      return status === 'buffering' && paused ? 'paused' : status;
+  }
+};
+
+/** Whether the video is (trying to be) in motion, i.e. the play button should offer Pause. */
+export const isPlaybackActive = (status: PlaybackStatus): boolean =>
+  status === 'playing' || status === 'buffering';
+
+export type PlayFailure = 'blocked' | 'unsupported' | 'failed';
+
+/**
+ * Starts playback and reports why it couldn't instead of throwing. A play()
+ * interrupted by a pause or a new source is not a failure.
+ */
+export const playMedia = async (media: HTMLMediaElement): Promise<PlayFailure | null> => {
+  try {
+    await media.play();
+    return null;
+  } catch (error) {
+    if (error instanceof DOMException) {
+      if (error.name === 'AbortError') return null;
+      if (error.name === 'NotAllowedError') return 'blocked';
+      if (error.name === 'NotSupportedError') return 'unsupported';
+    }
+    console.error('Failed to start playback', error);
+    return 'failed';
+  }
+};
@@ -0,0 +1,84 @@
+import type { Step } from '../components/VideoPlayer';
+import { clampPlaybackRate } from './speedTrainer';
+
+export interface PlaylistItem {
+  id: string;
+  /** One step, or several played together as a single span from the first start to the last end. */
+  stepIds: string[];
+  repeats: number;
+  rate: number;
+  /** Rest after each repetition, in seconds. */
+  pauseSeconds: number;
+}
+
+export interface PlaylistRun {
+  /** Snapshot of the routine taken when the run started. */
+  items: PlaylistItem[];
+  itemIndex: number;
+  /** Repetitions completed of the current item. */
+  rep: number;
+  finished: boolean;
+}
+
+export const MAX_PLAYLIST_REPEATS = 50;
+export const MAX_PLAYLIST_PAUSE_SECONDS = 60;
+
+export const createPlaylistItem = (stepIds: string[], rate = 1): PlaylistItem => ({
+  id: new Date().toISOString() + `-${Math.random().toString(36).slice(2, 8)}`,
+  stepIds,
+  repeats: 3,
+  rate: clampPlaybackRate(rate),
+  pauseSeconds: 0,
+});
+
+/** The span an item loops over, or null if any of its steps no longer exist. */
+export const playlistItemRange = (item: PlaylistItem, steps: Step[]): { start: number; end: number } | null => {
+  const itemSteps = item.stepIds.map(id => steps.find(step => step.id === id));
+  if (itemSteps.length === 0 || itemSteps.some(step => !step)) return null;
+  return {
+    start: Math.min(...itemSteps.map(step => step.start)),
+    end: Math.max(...itemSteps.map(step => step.end)),
+  };
+};
+
+export const playlistItemName = (item: PlaylistItem, steps: Step[]): string =>
+  item.stepIds.map(id => steps.find(step => step.id === id)?.name ?? 'Missing step').join(' + ');
+
+/** Every step once, in the order they occur in the video. */
+export const wholePieceItems = (steps: Step[], rate: number): PlaylistItem[] =>
+  [...steps]
+    .sort((a, b) => a.start - b.start)
+    .map(step => ({ ...createPlaylistItem([step.id], rate), repeats: 1 }));
+
+/** Drops a deleted step from the routine, and any item left with no steps. */
+export const removeStepFromPlaylist = (items: PlaylistItem[], stepId: string): PlaylistItem[] =>
+  items
+    .map(item => ({ ...item, stepIds: item.stepIds.filter(id => id !== stepId) }))
+    .filter(item => item.stepIds.length > 0);
+
+/** Starts a run over the playable items, or returns null if there are none. */
+export const startPlaylistRun = (items: PlaylistItem[], steps: Step[]): PlaylistRun | null => {
+  const playable = items.filter(item => item.repeats > 0 && playlistItemRange(item, steps));
+  if (playable.length === 0) return null;
+  return { items: playable, itemIndex: 0, rep: 0, finished: false };
+};
+
+/** Call once per completed repetition of the current item. */
+export const advancePlaylistRun = (run: PlaylistRun): PlaylistRun => {
+  if (run.finished) return run;
+  const rep = run.rep + 1;
+  if (rep < run.items[run.itemIndex].repeats) {
+    return { ...run, rep };
+  }
+  if (run.itemIndex + 1 < run.items.length) {
+    return { ...run, itemIndex: run.itemIndex + 1, rep: 0 };
+  }
+  return { ...run, rep, finished: true };
+};
+
+/** Fraction of all repetitions in the run that have been completed. */
+export const playlistProgress = (run: PlaylistRun): number => {
+  const total = run.items.reduce((sum, item) => sum + item.repeats, 0);
+  const done = run.items.slice(0, run.itemIndex).reduce((sum, item) => sum + item.repeats, 0) + run.rep;
+  return total > 0 ? Math.min(1, done / total) : 1;
+};
@@ -0,0 +1,266 @@
+import type { Step } from '../components/VideoPlayer';
+import type { PracticeSession } from './sessionStore';
+import { Annotation, createAnnotation } from './annotations';
+import { StepsDocument, createStepsDocument, parseStepsDocument } from './stepsFile';
+import { clampPlaybackRate } from './speedTrainer';
+import { createZip, readZip, verifyZipEntry } from './zipArchive';
+
+export const PACKAGE_FORMAT = 'dance-practice-package';
+export const PACKAGE_VERSION = 1;
+export const PACKAGE_EXTENSION = '.dancepkg';
+
+const MANIFEST_PATH = 'manifest.json';
+const STEPS_PATH = 'steps.json';
+const DIGEST_CHUNK_BYTES = 8 * 1024 * 1024;
+
+/** The player settings a package carries along with the steps. */
+export type PackageSettings = Partial<Pick<
+  PracticeSession,
+  'playbackRate' | 'isMirrored' | 'tempo' | 'snapToBeats' | 'countIn' | 'metronomeEnabled' | 'trainerSettings' | 'audioSettings' | 'preservePitch'
+>>;
+
+export interface PackageMedia {
+  /** Path of the media file inside the archive. */
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  /** The span of the original video this media covers. */
+  start: number;
+  end: number;
+  /** Steps (by position in steps.json) that belong to this media; all of them when missing. */
+  stepIndexes?: number[];
+}
+
+export interface PackageManifest {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  createdAt: string;
+  video: StepsDocument['video'];
+  media: PackageMedia[];
+  settings: PackageSettings;
+}
+
+/** One piece of media to bundle: the whole video, or a clip of some of its steps. */
+export interface PackageMediaSource {
+  blob: Blob;
+  name: string;
+  start: number;
+  end: number;
+  stepIds?: string[];
+}
+
+/** A video opened from a package, with the session it should start in. */
+export interface PackagedVideo {
+  file: File;
+  session: Omit<PracticeSession, 'fingerprint'>;
+}
+
+export const isPackageFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith(PACKAGE_EXTENSION);
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+/**
+ * SHA-256 over the SHA-256 of each 8 MB chunk. Web Crypto can't hash a stream,
+ * and chunking keeps a large video from having to sit in memory at once.
+ */
+export const digestMedia = async (blob: Blob): Promise<string> => {
+  const chunkDigests: Uint8Array[] = [];
+  for (let offset = 0; offset < blob.size; offset += DIGEST_CHUNK_BYTES) {
+    const chunk = await blob.slice(offset, offset + DIGEST_CHUNK_BYTES).arrayBuffer();
+    chunkDigests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)));
+  }
+  const joined = new Uint8Array(chunkDigests.length * 32);
+  chunkDigests.forEach((digest, index) => joined.set(digest, index * 32));
+  return toHex(await crypto.subtle.digest('SHA-256', joined));
+};
+
+const mediaExtension = (mimeType: string, name: string): string => {
+  const fromName = name.match(/\.([a-z0-9]+)$/i)?.[1];
+  if (fromName) return fromName.toLowerCase();
+  return mimeType.includes('mp4') ? 'mp4' : 'webm';
+};
+
+export const createPracticePackage = async (
+  video: StepsDocument['video'],
+  steps: Step[],
+  annotations: Annotation[],
+  settings: PackageSettings,
+  sources: PackageMediaSource[],
+  onProgress?: (fraction: number) => void,
+): Promise<Blob> => {
+  const media: PackageMedia[] = [];
+  for (const [index, source] of sources.entries()) {
+    const mimeType = source.blob.type || 'video/mp4';
+    media.push({
+      path: `media/${String(index + 1).padStart(2, '0')}.${mediaExtension(mimeType, source.name)}`,
+      name: source.name,
+      mimeType,
+      size: source.blob.size,
+      sha256: await digestMedia(source.blob),
+      start: source.start,
+      end: source.end,
+      stepIndexes: source.stepIds?.map(id => steps.findIndex(step => step.id === id)).filter(stepIndex => stepIndex >= 0),
+    });
+    // Hashing is the first half of the work; zipping (which checksums again) is the second.
+    onProgress?.(((index + 1) / sources.length) * 0.5);
+  }
+
+  const manifest: PackageManifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    createdAt: new Date().toISOString(),
+    video,
+    media,
+    settings,
+  };
+  const json = (data: unknown) => new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  return createZip(
+    [
+      { name: MANIFEST_PATH, data: json(manifest) },
+      { name: STEPS_PATH, data: json(createStepsDocument(steps, video, annotations)) },
+      ...media.map((entry, index) => ({ name: entry.path, data: sources[index].blob })),
+    ],
+    fraction => onProgress?.(0.5 + fraction * 0.5),
+  );
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/** Whether `value` is an object whose listed fields have the given primitive types. */
+const hasShape = (value: unknown, shape: Record<string, 'number' | 'boolean' | 'string'>): boolean =>
+  isRecord(value) && Object.entries(shape).every(([key, type]) =>
+    type === 'number' ? isFiniteNumber(value[key]) : typeof value[key] === type);
+
+/** Keeps only the settings that are well formed; anything else falls back to the player's defaults. */
+const parseSettings = (data: unknown): PackageSettings => {
+  if (!isRecord(data)) return {};
+  const settings: PackageSettings = {};
+  if (isFiniteNumber(data.playbackRate)) settings.playbackRate = clampPlaybackRate(data.playbackRate);
+  if (typeof data.isMirrored === 'boolean') settings.isMirrored = data.isMirrored;
+  if (typeof data.snapToBeats === 'boolean') settings.snapToBeats = data.snapToBeats;
+  if (typeof data.metronomeEnabled === 'boolean') settings.metronomeEnabled = data.metronomeEnabled;
+  if (typeof data.preservePitch === 'boolean') settings.preservePitch = data.preservePitch;
+  if (hasShape(data.tempo, { bpm: 'number', offset: 'number', beatsPerBar: 'number', source: 'string' })) {
+    settings.tempo = data.tempo as PackageSettings['tempo'];
+  }
+  if (hasShape(data.countIn, { enabled: 'boolean', beats: 'number', audible: 'boolean' })) {
+    settings.countIn = data.countIn as PackageSettings['countIn'];
+  }
+  if (hasShape(data.trainerSettings, { startRate: 'number', targetRate: 'number', increment: 'number', repsPerLevel: 'number', holdForConfirmation: 'boolean' })) {
+    settings.trainerSettings = data.trainerSettings as PackageSettings['trainerSettings'];
+  }
+  if (hasShape(data.audioSettings, { volume: 'number', muted: 'boolean', slowBoost: 'number' })) {
+    settings.audioSettings = data.audioSettings as PackageSettings['audioSettings'];
+  }
+  return settings;
+};
+
+const parseMedia = (entry: unknown, index: number): PackageMedia => {
+  const valid = hasShape(entry, { path: 'string', name: 'string', mimeType: 'string', size: 'number', sha256: 'string', start: 'number', end: 'number' });
+  const media = entry as PackageMedia;
+  if (!valid || media.end <= media.start || (media.stepIndexes !== undefined && !(Array.isArray(media.stepIndexes) && media.stepIndexes.every(Number.isInteger)))) {
+    throw new Error(`Media entry ${index + 1} in the package manifest is invalid.`);
+  }
+  if (!media.mimeType.startsWith('video/')) {
+    throw new Error(`"${media.name}" in the package is not a video.`);
+  }
+  return media;
+};
+
+const readJson = async (entries: Awaited<ReturnType<typeof readZip>>, path: string): Promise<unknown> => {
+  const entry = entries.get(path);
+  if (!entry) throw new Error(`The package has no ${path}. It may not be a practice package.`);
+  if (!(await verifyZipEntry(entry))) throw new Error(`${path} in the package is damaged.`);
+  try {
+    return JSON.parse(await entry.data.text());
+  } catch {
+    throw new Error(`${path} in the package is not valid JSON.`);
+  }
+};
+
+/** Moves what falls within a clip onto the clip's own timeline. */
+const shiftSpan = <T extends { start: number; end: number }>(item: T, offset: number, length: number): T | null => {
+  const start = Math.max(0, item.start - offset);
+  const end = Math.min(length, item.end - offset);
+  return end > start ? { ...item, start, end } : null;
+};
+
+/**
+ * Opens a package, checking every bundled video against the size and checksum
+ * recorded when it was made. Throws an Error with a message for the dancer if
+ * anything is missing, damaged or of an unknown version.
+ */
+export const readPracticePackage = async (file: Blob): Promise<PackagedVideo[]> => {
+  const entries = await readZip(file);
+  const manifestData = await readJson(entries, MANIFEST_PATH);
+  if (!isRecord(manifestData) || manifestData.format !== PACKAGE_FORMAT) {
+    throw new Error('This is not a dance practice package.');
+  }
+  if (!isFiniteNumber(manifestData.version) || manifestData.version > PACKAGE_VERSION) {
+    throw new Error(`Unsupported package version: ${String(manifestData.version)}. Please update the app.`);
+  }
+  if (!Array.isArray(manifestData.media) || manifestData.media.length === 0) {
+    throw new Error('The package contains no video.');
+  }
+  const media = manifestData.media.map(parseMedia);
+  const settings = parseSettings(manifestData.settings);
+
+  const parsed = parseStepsDocument(await readJson(entries, STEPS_PATH), 0);
+  if (!parsed.document) {
+    throw new Error(`The package's steps could not be read:\n${parsed.errors.slice(0, 5).join('\n')}`);
+  }
+  const { steps, annotations = [] } = parsed.document;
+
+  const opened: PackagedVideo[] = [];
+  for (const [index, item] of media.entries()) {
+    const entry = entries.get(item.path);
+    if (!entry) {
+      throw new Error(`"${item.name}" is missing from the package.`);
+    }
+    if (entry.data.size !== item.size || (await digestMedia(entry.data)) !== item.sha256) {
+      throw new Error(`"${item.name}" in the package is damaged: it doesn't match the checksum recorded when it was shared.`);
+    }
+
+    const length = item.end - item.start;
+    const clipSteps = (item.stepIndexes ? item.stepIndexes.map(stepIndex => steps[stepIndex]).filter(Boolean) : steps)
+      .map(step => shiftSpan(step, item.start, length))
+      .filter((step): step is NonNullable<typeof step> => step !== null)
+      .map((step, stepIndex) => ({ ...step, id: `${new Date().toISOString()}-${index}-${stepIndex}` }));
+    const clipAnnotations = annotations
+      .map(annotation => shiftSpan(annotation, item.start, length))
+      .filter((annotation): annotation is NonNullable<typeof annotation> => annotation !== null)
+      .map(createAnnotation);
+
+    opened.push({
+      file: new File([entry.data], item.name, { type: item.mimeType }),
+      session: {
+        ...settings,
+        // The beat grid extends both ways from its offset, so a clip keeps the same grid.
+        tempo: settings.tempo ? { ...settings.tempo, offset: settings.tempo.offset - item.start } : undefined,
+        videoName: item.name,
+        videoSize: item.size,
+        duration: length,
+        steps: clipSteps,
+        annotations: clipAnnotations,
+        activeStepId: null,
+        isLooping: false,
+        loopStart: 0,
+        loopEnd: length,
+        playbackRate: settings.playbackRate ?? 1,
+        lastPosition: 0,
+        updatedAt: Date.now(),
+      },
+    });
+  }
+  return opened;
+};
@@ -0,0 +1,172 @@
+import type { Step } from '../components/VideoPlayer';
+import { Mastery, masteryLabel } from './stepMetadata';
+import { formatTime } from './formatTime';
+
+/** One day of practice on one step. */
+export interface StepPractice {
+  /** Completed loop repetitions. */
+  reps: number;
+  /** Seconds spent playing. */
+  seconds: number;
+  /** Seconds spent at each playback rate, keyed by the rate to two decimals. */
+  speeds: Record<string, number>;
+}
+
+export interface MasteryChange {
+  stepId: string;
+  mastery: Mastery;
+  at: number;
+}
+
+export interface PracticeStats {
+  /** Practice by local date ("2024-05-31"), then by step id. */
+  days: Record<string, Record<string, StepPractice>>;
+  masteryChanges: MasteryChange[];
+}
+
+/** Stands in for the step id when playing without a step selected. */
+export const FREE_PRACTICE_KEY = '';
+
+export const EMPTY_PRACTICE_STATS: PracticeStats = { days: {}, masteryChanges: [] };
+
+const EMPTY_STEP_PRACTICE: StepPractice = { reps: 0, seconds: 0, speeds: {} };
+
+export const localDateKey = (date: Date): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+
+const speedKey = (rate: number): string => rate.toFixed(2);
+
+const updateDay = (
+  stats: PracticeStats,
+  date: string,
+  stepId: string | null,
+  update: (practice: StepPractice) => StepPractice,
+): PracticeStats => {
+  const key = stepId ?? FREE_PRACTICE_KEY;
+  const day = stats.days[date] ?? {};
+  return {
+    ...stats,
+    days: { ...stats.days, [date]: { ...day, [key]: update(day[key] ?? EMPTY_STEP_PRACTICE) } },
+  };
+};
+
+export const addPracticeTime = (stats: PracticeStats, date: string, stepId: string | null, rate: number, seconds: number): PracticeStats => {
+  if (seconds <= 0) return stats;
+  return updateDay(stats, date, stepId, practice => ({
+    ...practice,
+    seconds: practice.seconds + seconds,
+    speeds: { ...practice.speeds, [speedKey(rate)]: (practice.speeds[speedKey(rate)] ?? 0) + seconds },
+  }));
+};
+
+export const addRepetition = (stats: PracticeStats, date: string, stepId: string | null): PracticeStats =>
+  updateDay(stats, date, stepId, practice => ({ ...practice, reps: practice.reps + 1 }));
+
+export const recordMasteryChange = (stats: PracticeStats, stepId: string, mastery: Mastery, at: number): PracticeStats => ({
+  ...stats,
+  masteryChanges: [...stats.masteryChanges, { stepId, mastery, at }],
+});
+
+const mergePractice = (a: StepPractice, b: StepPractice): StepPractice => {
+  const speeds = { ...a.speeds };
+  Object.entries(b.speeds).forEach(([rate, seconds]) => {
+    speeds[rate] = (speeds[rate] ?? 0) + seconds;
+  });
+  return { reps: a.reps + b.reps, seconds: a.seconds + b.seconds, speeds };
+};
+
+/** All-time practice per step id. */
+export const stepTotals = (stats: PracticeStats): Record<string, StepPractice> => {
+  const totals: Record<string, StepPractice> = {};
+  Object.values(stats.days).forEach(day => {
+    Object.entries(day).forEach(([stepId, practice]) => {
+      totals[stepId] = mergePractice(totals[stepId] ?? EMPTY_STEP_PRACTICE, practice);
+    });
+  });
+  return totals;
+};
+
+/** Practice per day across all steps, newest first. */
+export const dailyTotals = (stats: PracticeStats): { date: string; practice: StepPractice }[] =>
+  Object.entries(stats.days)
+    .map(([date, day]) => ({ date, practice: Object.values(day).reduce(mergePractice, EMPTY_STEP_PRACTICE) }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+/** Speeds used, most practised first, e.g. ["0.75×", "1×"]. */
+export const speedsUsed = (practice: StepPractice): string[] =>
+  Object.entries(practice.speeds)
+    .sort(([, a], [, b]) => b - a)
+    .map(([rate]) => `${Number(rate)}×`);
+
+export const masteryHistory = (stats: PracticeStats, stepId: string): MasteryChange[] =>
+  stats.masteryChanges.filter(change => change.stepId === stepId);
+
+/** "1h 05m", "4m 10s" or "12s". */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(total % 60).padStart(2, '0')}s`;
+  return `${total % 60}s`;
+};
+
+export interface PracticeHeatSpan {
+  start: number;
+  end: number;
+  /** 0 for the least practised step up to 1 for the most. */
+  level: number;
+  label: string;
+}
+
+/** Each step's share of practice time, relative to the most practised step. */
+export const practiceHeat = (stats: PracticeStats, steps: Step[]): PracticeHeatSpan[] => {
+  const totals = stepTotals(stats);
+  const most = Math.max(0, ...steps.map(step => totals[step.id]?.seconds ?? 0));
+  return steps.map(step => {
+    const practice = totals[step.id] ?? EMPTY_STEP_PRACTICE;
+    return {
+      start: step.start,
+      end: step.end,
+      level: most > 0 ? practice.seconds / most : 0,
+      label: `${step.name}: ${practice.reps} reps, ${formatDuration(practice.seconds)} practised`,
+    };
+  });
+};
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Mastery as of the end of a local date, from the recorded changes. */
+const masteryOn = (changes: MasteryChange[], date: string): Mastery | null => {
+  const onOrBefore = changes.filter(change => localDateKey(new Date(change.at)) <= date);
+  return onOrBefore[onOrBefore.length - 1]?.mastery ?? null;
+};
+
+/** One row per day and step, oldest first, for a coach's spreadsheet. */
+export const statsToCsv = (stats: PracticeStats, steps: Step[]): string => {
+  const header = ['date', 'step', 'section', 'start', 'end', 'reps', 'minutes', 'speeds', 'mastery'];
+  const rows = Object.entries(stats.days)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([date, day]) => Object.entries(day).map(([stepId, practice]) => {
+      const step = steps.find(candidate => candidate.id === stepId);
+      const name = stepId === FREE_PRACTICE_KEY ? 'Free practice' : step?.name ?? 'Deleted step';
+      const changes = masteryHistory(stats, stepId);
+      // Steps rated before tracking began have no history, only their current mastery.
+      const mastery = step ? masteryOn(changes, date) ?? (changes.length === 0 ? step.mastery ?? null : null) : null;
+      return [
+        date,
+        name,
+        step?.section ?? '',
+        step ? formatTime(step.start) : '',
+        step ? formatTime(step.end) : '',
+        practice.reps,
+        (practice.seconds / 60).toFixed(1),
+        speedsUsed(practice).join(' '),
+        mastery ? masteryLabel(mastery) : '',
+      ];
+    }));
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+};
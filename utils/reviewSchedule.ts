@@ -0,0 +1,132 @@
+import type { Step } from '../components/VideoPlayer';
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_RATINGS: { value: ReviewRating; label: string; title: string; className: string }[] = [
+  { value: 'again', label: 'Again', title: 'Fell apart: practise it again today', className: 'bg-red-500/30 text-red-200 hover:bg-red-500/50' },
+  { value: 'hard', label: 'Hard', title: 'Got through it with effort', className: 'bg-amber-500/30 text-amber-200 hover:bg-amber-500/50' },
+  { value: 'good', label: 'Good', title: 'Solid, with minor slips', className: 'bg-emerald-500/30 text-emerald-200 hover:bg-emerald-500/50' },
+  { value: 'easy', label: 'Easy', title: 'Effortless', className: 'bg-sky-500/30 text-sky-200 hover:bg-sky-500/50' },
+];
+
+/** When a step is next due and how fast its reviews are spreading out. */
+export interface ReviewState {
+  /** Local date ("2024-05-31") the step is next due. */
+  due: string;
+  intervalDays: number;
+  /** Interval multiplier for a good review; lowered by misses, raised by easy runs. */
+  ease: number;
+  /** Reviews in a row not rated "again". */
+  streak: number;
+  lastReviewed: string;
+  firstReviewed: string;
+}
+
+/** Review state by step id. */
+export type ReviewSchedule = Record<string, ReviewState>;
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+// Steps never reviewed join the queue a few at a time so a big import doesn't swamp one day.
+export const NEW_STEPS_PER_DAY = 5;
+
+/** Dates are calendar keys, so day arithmetic is done in UTC where every day is 24 hours. */
+export const addDays = (date: string, days: number): string => {
+  const time = new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000));
+
+/**
+ * The state after rating a review on `today`. Pure, so the same history always
+ * produces the same schedule. Reviewing late counts the extra days as spacing
+ * the step survived, as flashcard schedulers do.
+ */
+export const rescheduleStep = (state: ReviewState | undefined, rating: ReviewRating, today: string): ReviewState => {
+  const ease = state?.ease ?? DEFAULT_EASE;
+  const streak = state?.streak ?? 0;
+  const elapsed = state ? Math.max(state.intervalDays, daysBetween(state.lastReviewed, today)) : 0;
+
+  let next: Omit<ReviewState, 'due' | 'lastReviewed' | 'firstReviewed'>;
+  switch (rating) {
+    case 'again':
+      next = { intervalDays: 1, ease: Math.max(MIN_EASE, ease - 0.2), streak: 0 };
+      break;
+    case 'hard':
+      next = { intervalDays: Math.max(1, Math.round(elapsed * 1.2)), ease: Math.max(MIN_EASE, ease - 0.15), streak: streak + 1 };
+      break;
+    case 'good':
+      next = { intervalDays: streak === 0 ? 1 : streak === 1 ? 3 : Math.round(elapsed * ease), ease, streak: streak + 1 };
+      break;
+    case 'easy':
+      next = { intervalDays: streak === 0 ? 4 : Math.round(elapsed * ease * 1.3), ease: ease + 0.15, streak: streak + 1 };
+      break;
+  }
+  const intervalDays = Math.min(MAX_INTERVAL_DAYS, Math.max(1, next.intervalDays));
+  return {
+    ...next,
+    intervalDays,
+    due: addDays(today, intervalDays),
+    lastReviewed: today,
+    firstReviewed: state?.firstReviewed ?? today,
+  };
+};
+
+export const isDue = (state: ReviewState | undefined, today: string): boolean =>
+  !state || state.due <= today;
+
+/**
+ * Today's queue: due steps, most overdue and then hardest first, followed by a
+ * few never-reviewed steps, least practised first. `practiceSeconds` breaks ties
+ * so neglected steps come up before well-drilled ones.
+ */
+export const buildReviewQueue = (
+  steps: Step[],
+  schedule: ReviewSchedule,
+  today: string,
+  practiceSeconds: (stepId: string) => number,
+): string[] => {
+  const reviewed = steps.filter(step => schedule[step.id]);
+  const due = reviewed
+    .filter(step => isDue(schedule[step.id], today))
+    .sort((a, b) =>
+      schedule[a.id].due.localeCompare(schedule[b.id].due)
+      || schedule[a.id].ease - schedule[b.id].ease
+      || practiceSeconds(a.id) - practiceSeconds(b.id));
+  const introducedToday = reviewed.filter(step => schedule[step.id].firstReviewed === today).length;
+  const fresh = steps
+    .filter(step => !schedule[step.id])
+    .sort((a, b) => practiceSeconds(a.id) - practiceSeconds(b.id) || a.start - b.start)
+    .slice(0, Math.max(0, NEW_STEPS_PER_DAY - introducedToday));
+  return [...due, ...fresh].map(step => step.id);
+};
+
+/** The next date anything is due after today, for an empty queue's message. */
+export const nextDueDate = (steps: Step[], schedule: ReviewSchedule, today: string): string | null => {
+  const upcoming = steps
+    .map(step => schedule[step.id]?.due)
+    .filter((due): due is string => !!due && due > today)
+    .sort();
+  return upcoming[0] ?? null;
+};
+
+export interface ReviewRun {
+  /** Step ids still to review, the current one first. */
+  queue: string[];
+  reviewed: number;
+}
+
+export const startReviewRun = (queue: string[]): ReviewRun | null =>
+  queue.length > 0 ? { queue, reviewed: 0 } : null;
+
+/** Moves past the current step; one rated "again" goes to the back of today's queue. */
+export const advanceReviewRun = (run: ReviewRun, rating: ReviewRating): ReviewRun => {
+  const [current, ...rest] = run.queue;
+  return {
+    queue: rating === 'again' && current ? [...rest, current] : rest,
+    reviewed: run.reviewed + 1,
+  };
+};
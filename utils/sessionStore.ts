@@ -0,0 +1,59 @@
+import type { Step } from '../components/VideoPlayer';
+import type { CountInSettings } from '../components/CountInControls';
+import type { AudioSettings } from '../components/AudioControls';
+import type { TempoMap } from './tempo';
+import type { SpeedTrainerSettings } from './speedTrainer';
+import type { PlaylistItem } from './playlist';
+import type { Annotation } from './annotations';
+import type { PracticeStats } from './practiceStats';
+import type { ReviewSchedule } from './reviewSchedule';
+import { SESSIONS_STORE, runRequest } from './db';
+
+export interface PracticeSession {
+  fingerprint: string;
+  videoName: string;
+  videoSize: number;
+  duration: number;
+  steps: Step[];
+  activeStepId: string | null;
+  isLooping: boolean;
+  loopStart: number;
+  loopEnd: number;
+  playbackRate: number;
+  isMirrored?: boolean;
+  tempo?: TempoMap | null;
+  snapToBeats?: boolean;
+  countIn?: CountInSettings;
+  metronomeEnabled?: boolean;
+  trainerSettings?: SpeedTrainerSettings;
+  audioSettings?: AudioSettings;
+  preservePitch?: boolean;
+  collapsedSections?: string[];
+  annotations?: Annotation[];
+  playlist?: PlaylistItem[];
+  practiceStats?: PracticeStats;
+  reviewSchedule?: ReviewSchedule;
+  showStepLabels?: boolean;
+  lastPosition: number;
+  updatedAt: number;
+}
+
+export const loadSession = async (fingerprint: string): Promise<PracticeSession | null> => {
+  const session = await runRequest<PracticeSession | undefined>(SESSIONS_STORE, 'readonly', store => store.get(fingerprint));
+  return session ?? null;
+};
+
+export const saveSession = async (session: PracticeSession): Promise<void> => {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (fingerprint: string): Promise<void> => {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(fingerprint));
+};
+
+export const listRecentSessions = async (limit = 10): Promise<PracticeSession[]> => {
+  const sessions = await runRequest<PracticeSession[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+  return sessions
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, limit);
+};
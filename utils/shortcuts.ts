@@ -0,0 +1,167 @@
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'setLoopStart'
+  | 'setLoopEnd'
+  | 'toggleLoop'
+  | 'speedUp'
+  | 'speedDown'
+  | 'seekBack'
+  | 'seekForward'
+  | 'seekBackLong'
+  | 'seekForwardLong'
+  | 'previousStep'
+  | 'nextStep'
+  | 'addStep'
+  | 'frameBack'
+  | 'frameForward'
+  | 'toggleMirror'
+  | 'tapTempo'
+  | 'undo'
+  | 'redo'
+  | 'showShortcuts';
+
+/** Key combos are modifier prefixes plus a KeyboardEvent.code, e.g. "Shift+ArrowLeft". */
+export type Keymap = Record<ShortcutAction, string[]>;
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  /** Whether holding the key down should keep triggering the action. */
+  repeatable: boolean;
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'togglePlay', label: 'Play / pause', repeatable: false },
+  { action: 'setLoopStart', label: 'Set loop start', repeatable: false },
+  { action: 'setLoopEnd', label: 'Set loop end', repeatable: false },
+  { action: 'toggleLoop', label: 'Toggle loop', repeatable: false },
+  { action: 'speedDown', label: 'Slower (previous speed preset)', repeatable: false },
+  { action: 'speedUp', label: 'Faster (next speed preset)', repeatable: false },
+  { action: 'seekBack', label: 'Back 1 second', repeatable: true },
+  { action: 'seekForward', label: 'Forward 1 second', repeatable: true },
+  { action: 'seekBackLong', label: 'Back 5 seconds', repeatable: true },
+  { action: 'seekForwardLong', label: 'Forward 5 seconds', repeatable: true },
+  { action: 'previousStep', label: 'Previous step', repeatable: false },
+  { action: 'nextStep', label: 'Next step', repeatable: false },
+  { action: 'addStep', label: 'Add step from loop', repeatable: false },
+  { action: 'frameBack', label: 'Previous frame', repeatable: true },
+  { action: 'frameForward', label: 'Next frame', repeatable: true },
+  { action: 'toggleMirror', label: 'Mirror video', repeatable: false },
+  { action: 'tapTempo', label: 'Tap tempo', repeatable: false },
+  { action: 'undo', label: 'Undo step or loop edit', repeatable: true },
+  { action: 'redo', label: 'Redo', repeatable: true },
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts', repeatable: false },
+];
+
+// Page turners and foot pedals usually send PageUp/PageDown or media keys.
+export const DEFAULT_KEYMAP: Keymap = {
+  togglePlay: ['Space', 'KeyK', 'MediaPlayPause'],
+  setLoopStart: ['KeyI'],
+  setLoopEnd: ['KeyO'],
+  toggleLoop: ['KeyL'],
+  speedDown: ['BracketLeft'],
+  speedUp: ['BracketRight'],
+  seekBack: ['ArrowLeft'],
+  seekForward: ['ArrowRight'],
+  seekBackLong: ['Shift+ArrowLeft'],
+  seekForwardLong: ['Shift+ArrowRight'],
+  previousStep: ['ArrowUp', 'PageUp', 'MediaTrackPrevious'],
+  nextStep: ['ArrowDown', 'PageDown', 'MediaTrackNext'],
+  addStep: ['KeyA'],
+  frameBack: ['Comma'],
+  frameForward: ['Period'],
+  toggleMirror: ['KeyM'],
+  tapTempo: ['KeyT'],
+  undo: ['Ctrl+KeyZ', 'Meta+KeyZ'],
+  redo: ['Ctrl+Shift+KeyZ', 'Meta+Shift+KeyZ', 'Ctrl+KeyY'],
+  showShortcuts: ['Shift+Slash'],
+};
+
+const KEYMAP_STORAGE_KEY = 'dance-practice-looper:keymap';
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+export const isModifierKey = (e: KeyboardEvent): boolean => MODIFIER_CODES.includes(e.code);
+
+export const comboFromEvent = (e: KeyboardEvent): string => {
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  // Some remotes send media keys with an empty code; fall back to the key name.
+  parts.push(e.code || e.key);
+  return parts.join('+');
+};
+
+export const findShortcutAction = (keymap: Keymap, combo: string): ShortcutAction | null => {
+  const match = (Object.keys(keymap) as ShortcutAction[]).find(action => keymap[action].includes(combo));
+  return match ?? null;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  MediaPlayPause: 'Play/Pause key',
+  MediaTrackNext: 'Next track key',
+  MediaTrackPrevious: 'Previous track key',
+};
+
+/** Human-readable combo, e.g. "Shift+←" or "A". */
+export const formatCombo = (combo: string): string => {
+  if (combo === 'Shift+Slash') return '?';
+  return combo
+    .split('+')
+    .map(part => KEY_LABELS[part] ?? part.replace(/^Key|^Digit/, ''))
+    .join('+');
+};
+
+/** The saved keymap, with defaults filled in for actions added since it was saved. */
+export const loadKeymap = (): Keymap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEYMAP_STORAGE_KEY) ?? 'null');
+    if (saved && typeof saved === 'object') {
+      const keymap = { ...DEFAULT_KEYMAP };
+      for (const { action } of SHORTCUTS) {
+        const combos = saved[action];
+        if (Array.isArray(combos) && combos.every(combo => typeof combo === 'string')) {
+          keymap[action] = combos;
+        }
+      }
+      return keymap;
+    }
+  } catch (error) {
+    console.error('Failed to load keyboard shortcuts', error);
+  }
+  return DEFAULT_KEYMAP;
+};
+
+export const saveKeymap = (keymap: Keymap): void => {
+  try {
+    localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(keymap));
+  } catch (error) {
+    console.error('Failed to save keyboard shortcuts', error);
+  }
+};
+
+/** Binds a combo to an action, removing it from whichever action had it before. */
+export const bindCombo = (keymap: Keymap, action: ShortcutAction, combo: string): Keymap => {
+  const next = { ...keymap };
+  for (const other of Object.keys(next) as ShortcutAction[]) {
+    next[other] = next[other].filter(existing => existing !== combo);
+  }
+  next[action] = [...next[action], combo];
+  return next;
+};
+
+export const unbindCombo = (keymap: Keymap, action: ShortcutAction, combo: string): Keymap => ({
+  ...keymap,
+  [action]: keymap[action].filter(existing => existing !== combo),
+});
@@ -0,0 +1,61 @@
+export const MIN_PLAYBACK_RATE = 0.1;
+export const MAX_PLAYBACK_RATE = 4;
+
+export interface SpeedTrainerSettings {
+  startRate: number;
+  targetRate: number;
+  increment: number;
+  repsPerLevel: number;
+  /** Stay at each level after its reps until the dancer confirms with "Got it". */
+  holdForConfirmation: boolean;
+}
+
+export interface SpeedTrainerState {
+  rate: number;
+  /** Repetitions completed at the current rate. */
+  rep: number;
+  awaitingConfirmation: boolean;
+  finished: boolean;
+}
+
+export const DEFAULT_TRAINER_SETTINGS: SpeedTrainerSettings = {
+  startRate: 0.5,
+  targetRate: 1,
+  increment: 0.1,
+  repsPerLevel: 3,
+  holdForConfirmation: false,
+};
+
+/** Rounds to hundredths so repeated increments don't accumulate float noise. */
+export const roundRate = (rate: number): number => Math.round(rate * 100) / 100;
+
+export const clampPlaybackRate = (rate: number): number =>
+  roundRate(Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate)));
+
+export const startTrainer = (settings: SpeedTrainerSettings): SpeedTrainerState => ({
+  rate: clampPlaybackRate(settings.startRate),
+  rep: 0,
+  awaitingConfirmation: false,
+  finished: clampPlaybackRate(settings.startRate) >= clampPlaybackRate(settings.targetRate),
+});
+
+const nextLevel = (state: SpeedTrainerState, settings: SpeedTrainerSettings): SpeedTrainerState => {
+  const target = clampPlaybackRate(settings.targetRate);
+  const rate = Math.min(target, clampPlaybackRate(state.rate + settings.increment));
+  return { rate, rep: 0, awaitingConfirmation: false, finished: rate >= target };
+};
+
+/** Call once per completed loop repetition. */
+export const advanceTrainer = (state: SpeedTrainerState, settings: SpeedTrainerSettings): SpeedTrainerState => {
+  const rep = state.rep + 1;
+  if (state.finished || state.awaitingConfirmation || rep < settings.repsPerLevel) {
+    return { ...state, rep };
+  }
+  if (settings.holdForConfirmation) {
+    return { ...state, rep, awaitingConfirmation: true };
+  }
+  return nextLevel(state, settings);
+};
+
+export const confirmTrainerLevel = (state: SpeedTrainerState, settings: SpeedTrainerSettings): SpeedTrainerState =>
+  state.finished ? state : nextLevel(state, settings);
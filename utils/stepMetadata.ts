@@ -0,0 +1,63 @@
+import type { Step } from '../components/VideoPlayer';
+
+export type Mastery = 'new' | 'learning' | 'solid';
+
+export const MASTERY_LEVELS: { value: Mastery; label: string; className: string }[] = [
+  { value: 'new', label: 'New', className: 'bg-gray-600 text-gray-200' },
+  { value: 'learning', label: 'Learning', className: 'bg-amber-500/30 text-amber-200' },
+  { value: 'solid', label: 'Solid', className: 'bg-emerald-500/30 text-emerald-200' },
+];
+
+export const MAX_DIFFICULTY = 5;
+export const SUGGESTED_TAGS = ['footwork', 'arms', 'transition', 'turns', 'floor work', 'partnering'];
+
+/** The descriptive fields a dancer can attach to a step. */
+export type StepMetadata = Pick<Step, 'notes' | 'counts' | 'tags' | 'difficulty' | 'mastery'>;
+
+export const isMastery = (value: unknown): value is Mastery =>
+  MASTERY_LEVELS.some(level => level.value === value);
+
+export const isDifficulty = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_DIFFICULTY;
+
+export const masteryLabel = (mastery: Mastery | undefined): string =>
+  MASTERY_LEVELS.find(level => level.value === (mastery ?? 'new'))?.label ?? 'New';
+
+export const nextMastery = (mastery: Mastery | undefined): Mastery => {
+  const index = MASTERY_LEVELS.findIndex(level => level.value === (mastery ?? 'new'));
+  return MASTERY_LEVELS[(index + 1) % MASTERY_LEVELS.length].value;
+};
+
+/** Splits "Footwork, arms" into normalized, de-duplicated tags. */
+/** Trims, lowercases and dedupes tags, dropping empty ones. */
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag !== '')));
+
+export const parseTags = (text: string): string[] => normalizeTags(text.split(','));
+
+export const allTags = (steps: Step[]): string[] =>
+  Array.from(new Set(steps.flatMap(step => step.tags ?? []))).sort();
+
+export interface StepFilter {
+  query: string;
+  tag: string | null;
+  mastery: Mastery | null;
+}
+
+export const EMPTY_STEP_FILTER: StepFilter = { query: '', tag: null, mastery: null };
+
+export const isStepFilterActive = (filter: StepFilter): boolean =>
+  filter.query.trim() !== '' || filter.tag !== null || filter.mastery !== null;
+
+/** Search covers the name, section, notes, counts and tags; every search word has to match. */
+export const matchesStepFilter = (step: Step, filter: StepFilter): boolean => {
+  if (filter.tag !== null && !(step.tags ?? []).includes(filter.tag)) return false;
+  if (filter.mastery !== null && (step.mastery ?? 'new') !== filter.mastery) return false;
+  const words = filter.query.toLowerCase().split(/\s+/).filter(word => word !== '');
+  if (words.length === 0) return true;
+  const haystack = [step.name, step.section, step.notes, step.counts, ...(step.tags ?? [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return words.every(word => haystack.includes(word));
+};
@@ -0,0 +1,91 @@
+import type { Step } from '../components/VideoPlayer';
+
+export interface StepGroup {
+  /** Section name, or null for steps that aren't in a section. */
+  section: string | null;
+  steps: Step[];
+}
+
+/** Where a dragged step lands: before a step, or at the end of a section when beforeStepId is null. */
+export interface StepDropTarget {
+  section: string | null;
+  beforeStepId: string | null;
+}
+
+const AUTO_NAME = /^Step \d+$/;
+
+export const isAutoStepName = (name: string): boolean => AUTO_NAME.test(name);
+
+export const normalizeSectionName = (name: string | undefined): string | null => {
+  const trimmed = name?.trim();
+  return trimmed ? trimmed : null;
+};
+
+/** Groups steps by section, ordered by where each section first appears. */
+export const groupSteps = (steps: Step[]): StepGroup[] => {
+  const groups: StepGroup[] = [];
+  for (const step of steps) {
+    const section = normalizeSectionName(step.section);
+    const group = groups.find(candidate => candidate.section === section);
+    if (group) {
+      group.steps.push(step);
+    } else {
+      groups.push({ section, steps: [step] });
+    }
+  }
+  return groups;
+};
+
+/** Steps in the order the sidebar shows them, with each section's steps together. */
+export const orderSteps = (steps: Step[]): Step[] => groupSteps(steps).flatMap(group => group.steps);
+
+export const sectionNames = (steps: Step[]): string[] =>
+  groupSteps(steps).flatMap(group => group.section === null ? [] : [group.section]);
+
+/** Gives default "Step N" names their position in the list; custom names are left alone. */
+export const renumberSteps = (steps: Step[]): Step[] =>
+  steps.map((step, index) => {
+    const name = `Step ${index + 1}`;
+    return isAutoStepName(step.name) && step.name !== name ? { ...step, name } : step;
+  });
+
+export const moveStep = (steps: Step[], id: string, target: StepDropTarget): Step[] => {
+  const moving = steps.find(step => step.id === id);
+  if (!moving || target.beforeStepId === id) return steps;
+  const rest = orderSteps(steps).filter(step => step.id !== id);
+  const moved: Step = { ...moving, section: target.section ?? undefined };
+  let index = target.beforeStepId ? rest.findIndex(step => step.id === target.beforeStepId) : -1;
+  if (index === -1) {
+    const lastInSection = rest.map(step => normalizeSectionName(step.section)).lastIndexOf(target.section);
+    index = lastInSection === -1 ? rest.length : lastInSection + 1;
+  }
+  rest.splice(index, 0, moved);
+  return renumberSteps(orderSteps(rest));
+};
+
+/** Sorts steps by start time within each section, and sections by their earliest step. */
+export const sortStepsByStart = (steps: Step[]): Step[] => {
+  const groups = groupSteps(steps).map(group => ({
+    ...group,
+    steps: [...group.steps].sort((a, b) => a.start - b.start),
+  }));
+  groups.sort((a, b) => a.steps[0].start - b.steps[0].start);
+  return renumberSteps(groups.flatMap(group => group.steps));
+};
+
+/** The span covering every step in a section. */
+export const sectionRange = (steps: Step[], section: string): { start: number; end: number } | null => {
+  const members = steps.filter(step => normalizeSectionName(step.section) === section);
+  if (members.length === 0) return null;
+  return {
+    start: Math.min(...members.map(step => step.start)),
+    end: Math.max(...members.map(step => step.end)),
+  };
+};
+
+export const renameSection = (steps: Step[], from: string, to: string): Step[] => {
+  const name = normalizeSectionName(to);
+  return orderSteps(steps.map(step =>
+    normalizeSectionName(step.section) === from ? { ...step, section: name ?? undefined } : step
+  ));
+};
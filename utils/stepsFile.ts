@@ -0,0 +1,310 @@
+import type { Step } from '../components/VideoPlayer';
+import { formatTime } from './formatTime';
+import { MAX_DIFFICULTY, isDifficulty, isMastery, normalizeTags } from './stepMetadata';
+import { Annotation, AnnotationData, AnnotationPoint, isAnnotationKind, minimumPoints } from './annotations';
+
+export const STEPS_FILE_FORMAT = 'dance-practice-steps';
+export const STEPS_FILE_VERSION = 1;
+
+export type StepData = Omit<Step, 'id'>;
+
+export interface StepsDocument {
+  format: typeof STEPS_FILE_FORMAT;
+  version: number;
+  video: {
+    name: string;
+    duration: number;
+    fingerprint: string | null;
+  };
+  steps: StepData[];
+  /** Drawings and text cues over the video; missing in files from before annotations existed. */
+  annotations?: AnnotationData[];
+  metadata: {
+    createdAt: string;
+  };
+}
+
+export interface StepsParseResult {
+  /** Null when the file failed validation; `errors` then says why. */
+  document: StepsDocument | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// Times closer than this are treated as the same boundary (duplicates, duration checks).
+const TIME_TOLERANCE = 0.05;
+const DURATION_MISMATCH_TOLERANCE = 0.5;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const createStepsDocument = (
+  steps: Step[],
+  video: StepsDocument['video'],
+  annotations: Annotation[] = [],
+): StepsDocument => ({
+  format: STEPS_FILE_FORMAT,
+  version: STEPS_FILE_VERSION,
+  video,
+  steps: steps.map(({ id, ...rest }) => rest),
+  annotations: annotations.map(({ id, ...rest }) => rest),
+  metadata: {
+    createdAt: new Date().toISOString(),
+  },
+});
+
+const validateStep = (entry: unknown, index: number, errors: string[]): StepData | null => {
+  const label = isRecord(entry) && typeof entry.name === 'string' && entry.name.trim() !== ''
+    ? `Step ${index + 1} ("${entry.name}")`
+    : `Step ${index + 1}`;
+
+  if (!isRecord(entry)) {
+    errors.push(`${label}: expected an object.`);
+    return null;
+  }
+
+  const problems: string[] = [];
+  if (typeof entry.name !== 'string' || entry.name.trim() === '') problems.push('name must be a non-empty string');
+  if (!isFiniteNumber(entry.start)) problems.push('start must be a number of seconds');
+  if (!isFiniteNumber(entry.end)) problems.push('end must be a number of seconds');
+  if (entry.mirrored !== undefined && typeof entry.mirrored !== 'boolean') problems.push('mirrored must be true or false');
+  if (entry.preservePitch !== undefined && typeof entry.preservePitch !== 'boolean') problems.push('preservePitch must be true or false');
+  if (entry.section !== undefined && typeof entry.section !== 'string') problems.push('section must be text');
+  if (entry.notes !== undefined && typeof entry.notes !== 'string') problems.push('notes must be text');
+  if (entry.counts !== undefined && typeof entry.counts !== 'string') problems.push('counts must be text');
+  if (entry.tags !== undefined && !(Array.isArray(entry.tags) && entry.tags.every(tag => typeof tag === 'string'))) {
+    problems.push('tags must be a list of text labels');
+  }
+  if (entry.difficulty !== undefined && !isDifficulty(entry.difficulty)) problems.push(`difficulty must be a whole number from 1 to ${MAX_DIFFICULTY}`);
+  if (entry.mastery !== undefined && !isMastery(entry.mastery)) problems.push('mastery must be "new", "learning" or "solid"');
+
+  if (isFiniteNumber(entry.start) && isFiniteNumber(entry.end)) {
+    if (entry.start < 0) problems.push(`start (${entry.start}) is negative`);
+    if (entry.end < 0) problems.push(`end (${entry.end}) is negative`);
+    if (entry.start >= entry.end) problems.push(`start (${formatTime(entry.start)}) must be before end (${formatTime(entry.end)})`);
+  }
+
+  if (problems.length > 0) {
+    errors.push(`${label}: ${problems.join('; ')}.`);
+    return null;
+  }
+
+  const step: StepData = {
+    name: (entry.name as string).trim(),
+    start: entry.start as number,
+    end: entry.end as number,
+  };
+  if (typeof entry.mirrored === 'boolean') step.mirrored = entry.mirrored;
+  if (typeof entry.preservePitch === 'boolean') step.preservePitch = entry.preservePitch;
+  if (typeof entry.section === 'string' && entry.section.trim() !== '') step.section = entry.section.trim();
+  if (typeof entry.notes === 'string' && entry.notes.trim() !== '') step.notes = entry.notes;
+  if (typeof entry.counts === 'string' && entry.counts.trim() !== '') step.counts = entry.counts.trim();
+  // Each tag is kept whole: one written with a comma in it must survive a save and reload.
+  const tags = Array.isArray(entry.tags) ? normalizeTags(entry.tags) : [];
+  if (tags.length > 0) step.tags = tags;
+  if (isDifficulty(entry.difficulty)) step.difficulty = entry.difficulty;
+  if (isMastery(entry.mastery)) step.mastery = entry.mastery;
+  return step;
+};
+
+/**
+ * Steps made for a longer cut of the routine are kept where they can be: ones
+ * running past the end are trimmed to it, ones starting after it are dropped.
+ */
+const validateSteps = (entries: unknown[], duration: number, errors: string[], warnings: string[]): StepData[] => {
+  const steps: StepData[] = [];
+  const trimmed: string[] = [];
+  const dropped: string[] = [];
+  entries.forEach((entry, index) => {
+    const step = validateStep(entry, index, errors);
+    if (!step) return;
+    if (duration > 0 && step.end > duration + TIME_TOLERANCE) {
+      if (step.start >= duration - TIME_TOLERANCE) {
+        dropped.push(step.name);
+        return;
+      }
+      trimmed.push(step.name);
+      step.end = duration;
+    }
+    steps.push(step);
+  });
+  if (trimmed.length > 0) {
+    warnings.push(`${trimmed.length} step(s) ran past the end of this video (${formatTime(duration)}) and were shortened: ${trimmed.join(', ')}.`);
+  }
+  if (dropped.length > 0) {
+    warnings.push(`${dropped.length} step(s) start after this video ends (${formatTime(duration)}) and were left out: ${dropped.join(', ')}.`);
+  }
+  return steps;
+};
+
+const isPoint = (value: unknown): value is AnnotationPoint =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const validateAnnotation = (entry: unknown, index: number, errors: string[]): AnnotationData | null => {
+  const label = `Annotation ${index + 1}`;
+  if (!isRecord(entry)) {
+    errors.push(`${label}: expected an object.`);
+    return null;
+  }
+
+  const problems: string[] = [];
+  if (!isAnnotationKind(entry.kind)) problems.push('kind must be "text", "arrow", "circle" or "freehand"');
+  if (!isFiniteNumber(entry.start)) problems.push('start must be a number of seconds');
+  if (!isFiniteNumber(entry.end)) problems.push('end must be a number of seconds');
+  if (typeof entry.color !== 'string') problems.push('color must be text');
+  if (entry.text !== undefined && typeof entry.text !== 'string') problems.push('text must be text');
+  if (!Array.isArray(entry.points) || !entry.points.every(isPoint)) {
+    problems.push('points must be a list of {x, y} positions');
+  } else if (isAnnotationKind(entry.kind) && entry.points.length < minimumPoints(entry.kind)) {
+    problems.push(`a ${entry.kind} needs at least ${minimumPoints(entry.kind)} point(s)`);
+  }
+
+  if (isFiniteNumber(entry.start) && isFiniteNumber(entry.end)) {
+    if (entry.start < 0) problems.push(`start (${entry.start}) is negative`);
+    if (entry.start >= entry.end) problems.push(`start (${formatTime(entry.start)}) must be before end (${formatTime(entry.end)})`);
+  }
+
+  if (problems.length > 0) {
+    errors.push(`${label}: ${problems.join('; ')}.`);
+    return null;
+  }
+
+  const annotation: AnnotationData = {
+    kind: entry.kind as AnnotationData['kind'],
+    start: entry.start as number,
+    end: entry.end as number,
+    color: entry.color as string,
+    points: (entry.points as AnnotationPoint[]).map(({ x, y }) => ({ x, y })),
+  };
+  if (typeof entry.text === 'string') annotation.text = entry.text;
+  return annotation;
+};
+
+const validateAnnotations = (entries: unknown, duration: number, errors: string[], warnings: string[]): AnnotationData[] => {
+  if (entries === undefined) return [];
+  if (!Array.isArray(entries)) {
+    errors.push('"annotations" must be a list.');
+    return [];
+  }
+  const annotations: AnnotationData[] = [];
+  let dropped = 0;
+  entries.forEach((entry, index) => {
+    const annotation = validateAnnotation(entry, index, errors);
+    if (!annotation) return;
+    if (duration > 0 && annotation.start > duration + TIME_TOLERANCE) {
+      dropped++;
+    } else {
+      annotations.push(annotation);
+    }
+  });
+  if (dropped > 0) {
+    warnings.push(`${dropped} annotation(s) appear after this video ends (${formatTime(duration)}) and were left out.`);
+  }
+  return annotations;
+};
+
+/**
+ * Parses a steps file against the current video. Accepts both the versioned
+ * document and the bare step array written by earlier versions of the app.
+ */
+export const parseStepsDocument = (data: unknown, duration: number): StepsParseResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (Array.isArray(data)) {
+    const steps = validateSteps(data, duration, errors, warnings);
+    if (errors.length > 0) return { document: null, errors, warnings };
+    warnings.push('This file uses the old steps format and has no video information; it could not be checked against this video.');
+    return {
+      errors,
+      warnings,
+      document: {
+        format: STEPS_FILE_FORMAT,
+        version: STEPS_FILE_VERSION,
+        video: { name: '', duration: 0, fingerprint: null },
+        steps,
+        metadata: { createdAt: '' },
+      },
+    };
+  }
+
+  if (!isRecord(data) || data.format !== STEPS_FILE_FORMAT) {
+    return { document: null, errors: ['This is not a dance practice steps file.'], warnings };
+  }
+  if (!isFiniteNumber(data.version) || data.version > STEPS_FILE_VERSION) {
+    return { document: null, errors: [`Unsupported steps file version: ${String(data.version)}. Please update the app.`], warnings };
+  }
+  if (!Array.isArray(data.steps)) {
+    return { document: null, errors: ['The file has no "steps" list.'], warnings };
+  }
+
+  const video = isRecord(data.video) ? data.video : {};
+  const videoName = typeof video.name === 'string' ? video.name : '';
+  const videoDuration = isFiniteNumber(video.duration) ? video.duration : 0;
+  const fingerprint = typeof video.fingerprint === 'string' ? video.fingerprint : null;
+  const metadata = isRecord(data.metadata) ? data.metadata : {};
+
+  const steps = validateSteps(data.steps, duration, errors, warnings);
+  const annotations = validateAnnotations(data.annotations, duration, errors, warnings);
+  if (errors.length > 0) return { document: null, errors, warnings };
+
+  if (videoDuration > 0 && duration > 0 && Math.abs(videoDuration - duration) > DURATION_MISMATCH_TOLERANCE) {
+    warnings.push(
+      `These steps were made for ${videoName ? `"${videoName}"` : 'a video'} lasting ${formatTime(videoDuration)}, ` +
+      `but this video lasts ${formatTime(duration)}. The steps may not line up.`
+    );
+  }
+
+  return {
+    errors,
+    warnings,
+    document: {
+      format: STEPS_FILE_FORMAT,
+      version: data.version,
+      video: { name: videoName, duration: videoDuration, fingerprint },
+      steps,
+      annotations,
+      metadata: { createdAt: typeof metadata.createdAt === 'string' ? metadata.createdAt : '' },
+    },
+  };
+};
+
+export const isDuplicateStep = (a: StepData, b: StepData): boolean =>
+  Math.abs(a.start - b.start) <= TIME_TOLERANCE && Math.abs(a.end - b.end) <= TIME_TOLERANCE;
+
+/** Returns the imported steps that do not already exist, plus how many were skipped. */
+export const findNewSteps = (existing: StepData[], imported: StepData[]): { steps: StepData[]; duplicates: number } => {
+  const steps: StepData[] = [];
+  let duplicates = 0;
+  for (const candidate of imported) {
+    if ([...existing, ...steps].some(step => isDuplicateStep(step, candidate))) {
+      duplicates++;
+    } else {
+      steps.push(candidate);
+    }
+  }
+  return { steps, duplicates };
+};
+
+const isDuplicateAnnotation = (a: AnnotationData, b: AnnotationData): boolean =>
+  a.kind === b.kind &&
+  (a.text ?? '') === (b.text ?? '') &&
+  Math.abs(a.start - b.start) <= TIME_TOLERANCE &&
+  Math.abs(a.end - b.end) <= TIME_TOLERANCE &&
+  JSON.stringify(a.points) === JSON.stringify(b.points);
+
+/** Returns the imported annotations that do not already exist. */
+export const findNewAnnotations = (existing: AnnotationData[], imported: AnnotationData[]): AnnotationData[] => {
+  const annotations: AnnotationData[] = [];
+  for (const candidate of imported) {
+    if (![...existing, ...annotations].some(annotation => isDuplicateAnnotation(annotation, candidate))) {
+      annotations.push(candidate);
+    }
+  }
+  return annotations;
+};
@@ -0,0 +1,64 @@
+const PREFERRED_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const supportsTakeRecording = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/** WebM where the browser can record it, otherwise whatever it records by default. */
+export const pickRecordingType = (types: string[] = PREFERRED_TYPES): string =>
+  types.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export const recordingExtension = (mimeType: string): string =>
+  mimeType.includes('mp4') ? 'mp4' : 'webm';
+
+export interface RecordedSegment {
+  blob: Blob;
+  mimeType: string;
+  /** Wall-clock seconds between start and stop. */
+  duration: number;
+}
+
+export interface TakeRecorder {
+  readonly isRecording: boolean;
+  start: () => void;
+  /** Resolves with the recording, or null if nothing was being recorded. */
+  stop: () => Promise<RecordedSegment | null>;
+}
+
+/**
+ * Records one segment at a time from a stream, so each repetition becomes its
+ * own file. A fresh MediaRecorder per segment keeps every file independently playable.
+ */
+export const createTakeRecorder = (stream: MediaStream): TakeRecorder => {
+  const mimeType = pickRecordingType();
+  // Chunks live with their segment, since the next segment may start before the last one has flushed.
+  let segment: { recorder: MediaRecorder; chunks: Blob[]; startedAt: number } | null = null;
+
+  return {
+    get isRecording() {
+      return segment !== null;
+    },
+    start: () => {
+      if (segment) return;
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      segment = { recorder, chunks, startedAt: performance.now() };
+      recorder.start();
+    },
+    stop: () => {
+      const active = segment;
+      if (!active) return Promise.resolve(null);
+      segment = null;
+      const duration = (performance.now() - active.startedAt) / 1000;
+      return new Promise(resolve => {
+        active.recorder.onstop = () => {
+          const type = active.recorder.mimeType || mimeType || 'video/webm';
+          resolve({ blob: new Blob(active.chunks, { type }), mimeType: type, duration });
+        };
+        active.recorder.stop();
+      });
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { TAKES_STORE, runRequest } from './db';
+
+/** A webcam recording of one repetition, stored with where it was in the reference. */
+export interface PracticeTake {
+  id: string;
+  /** Fingerprint of the reference video. */
+  fingerprint: string;
+  stepId: string | null;
+  stepName: string;
+  /** Repetition number within the recording session, starting at 1. */
+  rep: number;
+  playbackRate: number;
+  loopStart: number;
+  loopEnd: number;
+  /** Reference time at the first frame of the take. */
+  referenceStart: number;
+  /** Length of the recording in seconds. */
+  duration: number;
+  recordedAt: number;
+  mimeType: string;
+  size: number;
+  blob: Blob;
+}
+
+export const saveTake = async (take: PracticeTake): Promise<void> => {
+  await runRequest(TAKES_STORE, 'readwrite', store => store.put(take));
+};
+
+export const deleteTake = async (id: string): Promise<void> => {
+  await runRequest(TAKES_STORE, 'readwrite', store => store.delete(id));
+};
+
+/** Newest first. */
+export const listTakes = async (fingerprint: string): Promise<PracticeTake[]> => {
+  const takes = await runRequest<PracticeTake[]>(TAKES_STORE, 'readonly', store => store.index('fingerprint').getAll(fingerprint));
+  return takes.sort((a, b) => b.recordedAt - a.recordedAt);
+};
+
+export const deleteTakesForVideo = async (fingerprint: string): Promise<void> => {
+  const takes = await listTakes(fingerprint);
+  await Promise.all(takes.map(take => deleteTake(take.id)));
+};
+
+/** Bytes used and available to this origin, when the browser reports them. */
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,103 @@
+export interface TempoMap {
+  bpm: number;
+  /** Time in seconds of a downbeat (count "1"); the grid extends both ways from here. */
+  offset: number;
+  beatsPerBar: number;
+  source: 'tap' | 'detected' | 'manual';
+}
+
+export interface BeatMarker {
+  time: number;
+  isDownbeat: boolean;
+}
+
+export const MIN_BPM = 40;
+export const MAX_BPM = 240;
+
+// Taps further apart than this (in media seconds) start a new tap sequence.
+const TAP_RESET_GAP = 2;
+const MIN_TAPS = 4;
+
+export const beatDuration = (tempo: TempoMap): number => 60 / tempo.bpm;
+
+/** Index of the beat at or before `time`, counted from the offset downbeat. */
+const beatIndexAt = (time: number, tempo: TempoMap): number =>
+  Math.floor((time - tempo.offset) / beatDuration(tempo) + 1e-6);
+
+export const snapToBeat = (time: number, tempo: TempoMap): number => {
+  const beat = beatDuration(tempo);
+  const snapped = tempo.offset + Math.round((time - tempo.offset) / beat) * beat;
+  return Math.max(0, snapped);
+};
+
+export const toBarsBeats = (time: number, tempo: TempoMap): { bar: number; beat: number } => {
+  const index = beatIndexAt(time, tempo);
+  const beatInBar = ((index % tempo.beatsPerBar) + tempo.beatsPerBar) % tempo.beatsPerBar;
+  return {
+    bar: Math.floor(index / tempo.beatsPerBar) + 1,
+    beat: beatInBar + 1,
+  };
+};
+
+/** Formats a time as "bar:beat", e.g. "12:3". Bars before the offset downbeat are zero or negative. */
+export const formatBarsBeats = (time: number, tempo: TempoMap): string => {
+  const { bar, beat } = toBarsBeats(time, tempo);
+  return `${bar}:${beat}`;
+};
+
+export const beatGrid = (tempo: TempoMap, from: number, to: number): BeatMarker[] => {
+  const beat = beatDuration(tempo);
+  const markers: BeatMarker[] = [];
+  for (let index = Math.ceil((from - tempo.offset) / beat); ; index++) {
+    const time = tempo.offset + index * beat;
+    if (time > to) break;
+    if (time >= from) {
+      markers.push({ time, isDownbeat: index % tempo.beatsPerBar === 0 });
+    }
+  }
+  return markers;
+};
+
+/**
+ * Estimates tempo from tap times (in media seconds). Only the latest run of
+ * evenly spaced taps is used; the first tap of that run is taken as the "1".
+ */
+export const tempoFromTaps = (taps: number[]): { bpm: number; offset: number } | null => {
+  let runStart = 0;
+  for (let i = 1; i < taps.length; i++) {
+    const gap = taps[i] - taps[i - 1];
+    if (gap <= 0 || gap > TAP_RESET_GAP) runStart = i;
+  }
+  const run = taps.slice(runStart);
+  if (run.length < MIN_TAPS) return null;
+
+  const intervals = run.slice(1).map((tap, i) => tap - run[i]).sort((a, b) => a - b);
+  const median = intervals[Math.floor(intervals.length / 2)];
+  const bpm = Math.round(60 / median * 10) / 10;
+  if (bpm < MIN_BPM || bpm > MAX_BPM) return null;
+  return { bpm, offset: run[0] };
+};
+
+/** Whether a new tap continues the current sequence or should start a fresh one. */
+export const continuesTapSequence = (taps: number[], time: number): boolean => {
+  if (taps.length === 0) return false;
+  const gap = time - taps[taps.length - 1];
+  return gap > 0 && gap <= TAP_RESET_GAP;
+};
+
+/** Time of the first beat at or after `time`. */
+export const nextBeatTime = (time: number, tempo: TempoMap): number => {
+  const beat = beatDuration(tempo);
+  return tempo.offset + Math.ceil((time - tempo.offset) / beat - 1e-6) * beat;
+};
+
+export const isDownbeatAt = (time: number, tempo: TempoMap): boolean => {
+  const index = Math.round((time - tempo.offset) / beatDuration(tempo));
+  return ((index % tempo.beatsPerBar) + tempo.beatsPerBar) % tempo.beatsPerBar === 0;
+};
+
+/** Dancers count in on the end of an eight: four beats are "5, 6, 7, 8". */
+export const countInLabels = (beats: number): string[] => {
+  const first = beats <= 8 ? 8 - beats + 1 : 1;
+  return Array.from({ length: beats }, (_, i) => String(first + i));
+};
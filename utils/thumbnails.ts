@@ -0,0 +1,67 @@
+export interface Thumbnail {
+  time: number;
+  url: string;
+}
+
+const MAX_THUMBNAILS = 60;
+const MIN_THUMBNAIL_INTERVAL = 1;
+
+export const thumbnailTimes = (duration: number): number[] => {
+  if (duration <= 0) return [];
+  const interval = Math.max(MIN_THUMBNAIL_INTERVAL, duration / MAX_THUMBNAILS);
+  const times: number[] = [];
+  for (let time = interval / 2; time < duration; time += interval) {
+    times.push(time);
+  }
+  return times;
+};
+
+export const waitFor = (target: HTMLMediaElement, event: 'loadeddata' | 'seeked'): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, handleEvent);
+      target.removeEventListener('error', handleError);
+    };
+    const handleEvent = () => { cleanup(); resolve(); };
+    const handleError = () => { cleanup(); reject(target.error ?? new Error('Failed to load video')); };
+    target.addEventListener(event, handleEvent);
+    target.addEventListener('error', handleError);
+  });
+
+/**
+ * Grabs small frames at the given times from a separate, hidden video element
+ * so the main player is never disturbed. Thumbnails are delivered one by one.
+ */
+export const generateThumbnails = async (
+  videoUrl: string,
+  times: number[],
+  height: number,
+  onThumbnail: (thumbnail: Thumbnail) => void,
+  isCancelled: () => boolean,
+): Promise<void> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  const loaded = waitFor(video, 'loadeddata');
+  video.src = videoUrl;
+  try {
+    await loaded;
+    const scaled = document.createElement('canvas');
+    scaled.height = height;
+    scaled.width = Math.round(height * (video.videoWidth / video.videoHeight || 16 / 9));
+    const context = scaled.getContext('2d');
+    if (!context) return;
+
+    for (const time of times) {
+      if (isCancelled()) return;
+      const seeked = waitFor(video, 'seeked');
+      video.currentTime = time;
+      await seeked;
+      context.drawImage(video, 0, 0, scaled.width, scaled.height);
+      onThumbnail({ time, url: scaled.toDataURL('image/jpeg', 0.7) });
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
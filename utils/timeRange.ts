@@ -0,0 +1,13 @@
+/** Checks a proposed start time against the range end. Returns an error message or null. */
+export const validateRangeStart = (start: number, end: number): string | null => {
+  if (start < 0) return 'Start cannot be negative';
+  if (start >= end) return 'Start must be before end';
+  return null;
+};
+
+/** Checks a proposed end time against the range start and video duration. */
+export const validateRangeEnd = (end: number, start: number, duration: number): string | null => {
+  if (duration > 0 && end > duration) return 'End is beyond the end of the video';
+  if (end <= start) return 'End must be after start';
+  return null;
+};
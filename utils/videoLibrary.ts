@@ -0,0 +1,72 @@
+import type { PracticeSession } from './sessionStore';
+
+/** A video opened in this tab. Each one keeps its own practice session. */
+export interface LibraryVideo {
+  id: string;
+  url: string;
+  name: string;
+  size: number;
+  fingerprint: string | null;
+  /**
+   * The saved session to start from. Undefined once the player has switched
+   * away, since the player saved newer state that must be re-read.
+   */
+  session?: PracticeSession | null;
+  /** Object URLs belong to us and are revoked on close; pasted URLs are not. */
+  isObjectUrl: boolean;
+}
+
+const URL_FINGERPRINT_PREFIX = 'url:';
+
+/** Videos opened by URL are recognised by the URL itself. */
+export const fingerprintUrl = (url: string): string => `${URL_FINGERPRINT_PREFIX}${url}`;
+
+export const urlFromFingerprint = (fingerprint: string): string | null =>
+  fingerprint.startsWith(URL_FINGERPRINT_PREFIX) ? fingerprint.slice(URL_FINGERPRINT_PREFIX.length) : null;
+
+/** Resolves what was typed (relative paths included) to an absolute http(s) URL, or null. */
+export const parseMediaUrl = (input: string): string | null => {
+  if (!input.trim()) return null;
+  try {
+    const url = new URL(input.trim(), window.location.href);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export const nameFromUrl = (url: string): string => {
+  const { pathname, hostname } = new URL(url);
+  const lastSegment = pathname.split('/').filter(Boolean).pop() ?? '';
+  try {
+    return decodeURIComponent(lastSegment) || hostname;
+  } catch {
+    return lastSegment || hostname;
+  }
+};
+
+// Some platforms report no MIME type for .mkv or .mov, so fall back to the extension.
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv|avi|ogv|mpe?g)$/i;
+
+export const isVideoFile = (file: File): boolean =>
+  file.type.startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+
+/** Explains a failed video element in terms of what the user can do about it. */
+export const describeMediaError = (error: MediaError | null): string => {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'This browser can\'t play this video. Its format or codec may be unsupported (try converting it to MP4 with H.264, or WebM), or the URL may not point to a video.';
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'The video could not be decoded. The file may be damaged or use a codec this browser can\'t play.';
+    case MediaError.MEDIA_ERR_NETWORK:
+      return 'The video stopped loading because of a network error.';
+    case MediaError.MEDIA_ERR_ABORTED:
+      return 'Loading the video was interrupted.';
+    default:
+      return 'The video could not be played.';
+  }
+};
+
+/** Shown when only the soundtrack decodes, which otherwise leaves a blank player. */
+export const NO_PICTURE_MESSAGE =
+  'This browser can\'t show this video\'s picture, only its sound. The video codec (often HEVC/H.265) is unsupported here; try converting it to MP4 with H.264, or WebM.';
@@ -0,0 +1,173 @@
+// A minimal ZIP writer and reader for uncompressed ("stored") entries. Video is
+// already compressed, so deflating it would only cost time; stored entries also
+// let a large file be bundled without copying it into memory.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+// Without the ZIP64 extension, sizes and offsets are 32-bit.
+export const MAX_ZIP_BYTES = 0xffffffff;
+const UTF8_NAMES_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+const CHUNK_BYTES = 8 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += CHUNK_BYTES) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + CHUNK_BYTES).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (entries: ZipEntry[], onProgress?: (fraction: number) => void): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(new Date());
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.data.size, 0);
+  // Checked before any hashing, so an oversized video is never read and no size is truncated to 32 bits.
+  const headerBytes = entries.reduce((sum, entry) => sum + LOCAL_HEADER_SIZE + encoder.encode(entry.name).length, 0);
+  if (totalBytes + headerBytes > MAX_ZIP_BYTES) {
+    throw new Error('The package would be larger than 4 GB. Share a few step clips instead of the whole video.');
+  }
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  let hashedBytes = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = await crc32(entry.data);
+    hashedBytes += entry.data.size;
+    onProgress?.(totalBytes > 0 ? hashedBytes / totalBytes : 1);
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_NAMES_FLAG, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.size, true);
+    local.setUint32(22, entry.data.size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, UTF8_NAMES_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, stamp.time, true);
+    central.setUint16(14, stamp.date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, entry.data.size, true);
+    central.setUint32(24, entry.data.size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(local.buffer, name, entry.data);
+    directory.push(new Uint8Array(central.buffer), name);
+    offset += LOCAL_HEADER_SIZE + name.length + entry.data.size;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(END_OF_DIRECTORY_SIZE));
+  end.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+};
+
+const readView = async (blob: Blob, start: number, length: number): Promise<DataView> =>
+  new DataView(await blob.slice(start, start + length).arrayBuffer());
+
+/** Lists a ZIP's entries by name. Only stored entries can be read; their data is sliced, not copied. */
+export const readZip = async (blob: Blob): Promise<Map<string, ZipEntry & { crc32: number }>> => {
+  const tailLength = Math.min(blob.size, END_OF_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+  const tail = await readView(blob, blob.size - tailLength, tailLength);
+  let endOffset = -1;
+  for (let i = tailLength - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('This file is not a ZIP archive, or it was cut short.');
+  }
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const directorySize = tail.getUint32(endOffset + 12, true);
+  const directoryOffset = tail.getUint32(endOffset + 16, true);
+  const directory = await readView(blob, directoryOffset, directorySize);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry & { crc32: number }>();
+
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + CENTRAL_HEADER_SIZE > directory.byteLength || directory.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('The archive\'s file list is damaged.');
+    }
+    const method = directory.getUint16(position + 10, true);
+    const crc = directory.getUint32(position + 16, true);
+    const compressedSize = directory.getUint32(position + 20, true);
+    const size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const localOffset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + position + CENTRAL_HEADER_SIZE, nameLength));
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (method !== 0 || compressedSize !== size) {
+      throw new Error(`"${name}" is compressed. Only archives created by this app can be opened.`);
+    }
+    const local = await readView(blob, localOffset, LOCAL_HEADER_SIZE);
+    if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`The archive entry "${name}" is damaged.`);
+    }
+    const dataOffset = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true);
+    if (dataOffset + size > blob.size) {
+      throw new Error(`The archive entry "${name}" is incomplete; the file may have been cut short.`);
+    }
+    entries.set(name, { name, data: blob.slice(dataOffset, dataOffset + size), crc32: crc });
+  }
+  return entries;
+};
+
+/** Whether an entry read with `readZip` still matches the checksum stored for it. */
+export const verifyZipEntry = async (entry: ZipEntry & { crc32: number }): Promise<boolean> =>
+  (await crc32(entry.data)) === entry.crc32;